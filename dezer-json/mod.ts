@@ -6,7 +6,10 @@
  */
 
 import type {
+  Class,
+  DateFormat,
   Deserialize,
+  DeserializeOptions,
   Deserializer,
   EnumAccess,
   MapAccess,
@@ -19,7 +22,16 @@ import type {
   StructSerializer,
   Visitor,
 } from "@dezer/core"
-import { DeserializationError, deserialize, SerializationError, SERIALIZE, serialize } from "@dezer/core"
+import {
+  collectIssues,
+  DeserializationError,
+  deserialize,
+  formatDate,
+  parseDate,
+  SerializationError,
+  SERIALIZE,
+  serialize,
+} from "@dezer/core"
 
 /**
  * JSON-specific serializer that implements the visitor pattern
@@ -39,6 +51,11 @@ export class JsonSerializer implements Serializer {
     this.output.push(v)
   }
 
+  serializeBigInt(v: bigint): void {
+    // Kept as a bigint and written as an exact integer literal by toString
+    this.output.push(v)
+  }
+
   serializeString(v: string): void {
     this.output.push(v)
   }
@@ -48,6 +65,11 @@ export class JsonSerializer implements Serializer {
     this.output.push(btoa(String.fromCharCode(...v)))
   }
 
+  serializeDate(v: Date, format?: DateFormat): void {
+    // JSON has no date type, so dates are ISO 8601 strings unless the field chooses another format
+    this.output.push(formatDate(v, format))
+  }
+
   serializeSeq(len?: number): SeqSerializer {
     return new JsonSeqSerializer(this.output)
   }
@@ -66,15 +88,23 @@ export class JsonSerializer implements Serializer {
 
   serializeNewtype<T>(name: string, value: T): void {
     // For JSON, newtype is just the wrapped value
-    this.output.push(value)
+    if (typeof value === "object" && value !== null && SERIALIZE in value) {
+      ;(value as Serialize)[SERIALIZE](this)
+    } else {
+      this.output.push(value)
+    }
   }
 
-  serializeEnum(name: string, variant: string, data?: unknown): void {
+  serializeEnum(name: string, variant: string | number, data?: unknown): void {
     if (data === undefined) {
-      // Simple enum variant as string
+      // Simple enum variant as a plain string or number
       this.output.push(variant)
-    } else {
+    } else if (typeof data === "object" && data !== null && SERIALIZE in data) {
       // Enum with data as object
+      const serializer = new JsonSerializer()
+      ;(data as Serialize)[SERIALIZE](serializer)
+      this.output.push({ [variant]: serializer.getResult() })
+    } else {
       this.output.push({ [variant]: data })
     }
   }
@@ -205,6 +235,8 @@ export class JsonDeserializer implements Deserializer {
       return visitor.visitBool(this.data)
     } else if (typeof this.data === "number") {
       return visitor.visitNumber(this.data)
+    } else if (typeof this.data === "bigint") {
+      return visitor.visitBigInt(this.data)
     } else if (typeof this.data === "string") {
       return visitor.visitString(this.data)
     } else if (Array.isArray(this.data)) {
@@ -230,6 +262,20 @@ export class JsonDeserializer implements Deserializer {
     throw new DeserializationError(`Expected number, found ${typeof this.data}`)
   }
 
+  deserializeBigInt<T>(visitor: Visitor<T>): T {
+    if (typeof this.data === "bigint") {
+      return visitor.visitBigInt(this.data)
+    }
+    if (typeof this.data === "number" && Number.isSafeInteger(this.data)) {
+      return visitor.visitBigInt(BigInt(this.data))
+    }
+    // Integers are also commonly written as strings by producers that can't write them exactly
+    if (typeof this.data === "string" && /^-?\d+$/.test(this.data)) {
+      return visitor.visitBigInt(BigInt(this.data))
+    }
+    throw new DeserializationError(`Expected integer, found ${typeof this.data}`)
+  }
+
   deserializeString<T>(visitor: Visitor<T>): T {
     if (typeof this.data === "string") {
       return visitor.visitString(this.data)
@@ -246,6 +292,14 @@ export class JsonDeserializer implements Deserializer {
     throw new DeserializationError(`Expected base64 string for bytes, found ${typeof this.data}`)
   }
 
+  deserializeDate<T>(visitor: Visitor<T>, format?: DateFormat): T {
+    const date = parseDate(this.data, format)
+    if (date) {
+      return visitor.visitDate(date)
+    }
+    throw new DeserializationError(`Expected ${format ?? "date"}, found ${typeof this.data}`)
+  }
+
   deserializeSeq<T>(visitor: Visitor<T>): T {
     if (Array.isArray(this.data)) {
       return visitor.visitSeq(new JsonSeqAccess(this.data))
@@ -274,7 +328,7 @@ export class JsonDeserializer implements Deserializer {
     return this.deserializeAny(visitor)
   }
 
-  deserializeEnum<T>(name: string, variants: string[], visitor: Visitor<T>): T {
+  deserializeEnum<T>(name: string, variants: (string | number)[], visitor: Visitor<T>): T {
     return visitor.visitEnum(new JsonEnumAccess(this.data))
   }
 }
@@ -343,8 +397,8 @@ class JsonMapAccess implements MapAccess {
 class JsonEnumAccess implements EnumAccess {
   constructor(private data: unknown) {}
 
-  variant<T>(): [string, T] {
-    if (typeof this.data === "string") {
+  variant<T>(): [string | number, T] {
+    if (typeof this.data === "string" || typeof this.data === "number") {
       // Simple enum variant
       return [this.data, undefined as T]
     } else if (typeof this.data === "object" && this.data !== null) {
@@ -359,6 +413,24 @@ class JsonEnumAccess implements EnumAccess {
   }
 }
 
+/**
+ * `JSON.rawJSON` and the reviver context from the JSON.parse source text access proposal,
+ * which aren't in TypeScript's lib yet
+ */
+type RawJSON = JSON & { rawJSON(text: string): unknown }
+type ReviverContext = { source?: string }
+
+/**
+ * Read integers beyond the safe range as bigints from their source text, so they keep
+ * every digit
+ */
+function parseBigInts(_key: string, value: unknown, context?: ReviverContext): unknown {
+  if (typeof value === "number" && !Number.isSafeInteger(value) && context?.source && /^-?\d+$/.test(context.source)) {
+    return BigInt(context.source)
+  }
+  return value
+}
+
 /**
  * Serialize a value to JSON string
  *
@@ -368,7 +440,10 @@ class JsonEnumAccess implements EnumAccess {
 export function toString<T extends Serialize>(value: T): string {
   const serializer = new JsonSerializer()
   serialize(value, serializer)
-  return JSON.stringify(serializer.getResult())
+  return JSON.stringify(
+    serializer.getResult(),
+    (_key, v) => typeof v === "bigint" ? (JSON as RawJSON).rawJSON(v.toString()) : v,
+  )
 }
 
 /**
@@ -376,10 +451,18 @@ export function toString<T extends Serialize>(value: T): string {
  *
  * @param json The JSON string to parse
  * @param ctor Constructor that implements Deserialize trait
+ * @param options Set `collectErrors` to report every invalid field at once
  * @returns The deserialized value
  */
-export function fromString<T extends Deserialize>(json: string, ctor: new (...args: any[]) => T): T {
-  const data = JSON.parse(json)
+export function fromString<T extends Deserialize>(
+  json: string,
+  ctor: Class<T>,
+  options: DeserializeOptions = {},
+): T {
+  const data = JSON.parse(json, parseBigInts)
   const deserializer = new JsonDeserializer(data)
+  if (options.collectErrors) {
+    return collectIssues(() => deserialize<T, JsonDeserializer>(ctor, deserializer))
+  }
   return deserialize<T, JsonDeserializer>(ctor, deserializer)
 }
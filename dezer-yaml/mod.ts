@@ -9,7 +9,10 @@
  */
 
 import type {
+  Class,
+  DateFormat,
   Deserialize,
+  DeserializeOptions,
   Deserializer,
   EnumAccess,
   MapAccess,
@@ -22,7 +25,16 @@ import type {
   StructSerializer,
   Visitor,
 } from "@dezer/core"
-import { DeserializationError, deserialize, SerializationError, SERIALIZE, serialize } from "@dezer/core"
+import {
+  collectIssues,
+  DeserializationError,
+  deserialize,
+  formatDate,
+  parseDate,
+  SerializationError,
+  SERIALIZE,
+  serialize,
+} from "@dezer/core"
 
 /**
  * YAML-specific serializer that implements the visitor pattern
@@ -30,6 +42,7 @@ import { DeserializationError, deserialize, SerializationError, SERIALIZE, seria
 export class YamlSerializer implements Serializer {
   public lines: string[] = []
   public indentLevel = 0
+  private compound = false
 
   serializeNull(): void {
     this.lines.push("null")
@@ -43,13 +56,12 @@ export class YamlSerializer implements Serializer {
     this.lines.push(v.toString())
   }
 
+  serializeBigInt(v: bigint): void {
+    this.lines.push(v.toString())
+  }
+
   serializeString(v: string): void {
-    // Simple YAML string handling - quote if contains special chars
-    if (v.includes("\n") || v.includes(":") || v.includes("-") || v.includes("'") || v.includes('"')) {
-      this.lines.push(`"${v.replace(/"/g, '\\"')}"`)
-    } else {
-      this.lines.push(v)
-    }
+    this.lines.push(formatString(v))
   }
 
   serializeBytes(v: Uint8Array): void {
@@ -58,103 +70,207 @@ export class YamlSerializer implements Serializer {
     this.lines.push(`!!binary "${base64}"`)
   }
 
+  serializeDate(v: Date, format?: DateFormat): void {
+    // Written as a plain timestamp scalar unless the field chooses another format
+    const formatted = format ? formatDate(v, format) : undefined
+    this.lines.push(formatted === undefined ? formatTimestamp(v) : formatScalar(formatted))
+  }
+
   serializeSeq(len?: number): SeqSerializer {
+    this.compound = true
     return new YamlSeqSerializer(this.lines, this.indentLevel)
   }
 
   serializeMap(len?: number): MapSerializer {
+    this.compound = true
     return new YamlMapSerializer(this.lines, this.indentLevel)
   }
 
   serializeStruct(name: string, len: number): StructSerializer {
+    this.compound = true
     return new YamlStructSerializer(this.lines, this.indentLevel)
   }
 
-  serializeOption<T>(value: T | null | undefined): OptionSerializer<T> {
-    return new YamlOptionSerializer(this.lines, this.indentLevel, value)
+  serializeOption<T>(): OptionSerializer<T> {
+    return new YamlOptionSerializer(this)
   }
 
   serializeNewtype<T>(name: string, value: T): void {
     // For YAML, newtype is just the wrapped value
-    if (typeof value === "object" && value !== null && SERIALIZE in value) {
-      const serializer = new YamlSerializer()
-      ;(value as any)[SERIALIZE](serializer)
-      this.lines.push(...serializer.lines)
-    } else {
-      this.lines.push(String(value))
-    }
+    this.writeValue(value)
   }
 
-  serializeEnum(name: string, variant: string, data?: unknown): void {
+  serializeEnum(name: string, variant: string | number, data?: unknown): void {
     if (data === undefined) {
-      // Simple enum variant as string
-      this.lines.push(variant)
-    } else {
-      // Enum with data as object
-      this.lines.push(`${variant}:`)
-      if (typeof data === "object" && data !== null && SERIALIZE in data) {
-        const serializer = new YamlSerializer()
-        serializer.indentLevel = this.indentLevel + 1
-        ;(data as any)[SERIALIZE](serializer)
-        this.lines.push(...serializer.lines.map((line) => `  ${line}`))
+      // Simple enum variant as a plain scalar
+      if (typeof variant === "string") {
+        this.serializeString(variant)
       } else {
-        this.lines.push(`  ${data}`)
+        this.serializeNumber(variant)
       }
+    } else {
+      // Enum with data as object
+      this.compound = true
+      const indent = "  ".repeat(this.indentLevel)
+      writeEntry(this.lines, indent, formatString(String(variant)), data)
+    }
+  }
+
+  /**
+   * Write an arbitrary value, which may be a scalar, an array, a plain object
+   * or a value implementing Serialize
+   *
+   * @internal Used by the option serializer
+   */
+  writeValue(value: unknown): void {
+    const rendered = renderValue(value)
+    if (typeof rendered === "string") {
+      this.lines.push(rendered)
+    } else {
+      this.compound = true
+      const indent = "  ".repeat(this.indentLevel)
+      this.lines.push(...rendered.map((line) => `${indent}${line}`))
     }
   }
 
+  /**
+   * Whether the serialized output is a single scalar that can be written inline after a key
+   */
+  isScalar(): boolean {
+    return !this.compound && this.lines.length === 1
+  }
+
   getResult(): string {
     return this.lines.join("\n")
   }
 }
 
+/**
+ * Render a value either as an inline scalar, or as block lines (at indentation zero)
+ * to be nested under a key or sequence dash by the caller
+ */
+function renderValue(value: unknown): string | string[] {
+  if (typeof value === "object" && value !== null && SERIALIZE in value) {
+    const serializer = new YamlSerializer()
+    ;(value as Serialize)[SERIALIZE](serializer)
+    if (serializer.isScalar()) {
+      return serializer.getResult()
+    }
+    return serializer.lines.length > 0 ? serializer.lines : "{}"
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return "[]"
+    }
+    const lines: string[] = []
+    for (const element of value) {
+      writeElement(lines, "", element)
+    }
+    return lines
+  }
+
+  if (value instanceof Date) {
+    return formatTimestamp(value)
+  }
+
+  if (typeof value === "object" && value !== null && !(value instanceof Uint8Array)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0) {
+      return "{}"
+    }
+    const lines: string[] = []
+    for (const [key, entryValue] of entries) {
+      writeEntry(lines, "", formatString(key), entryValue)
+    }
+    return lines
+  }
+
+  return formatScalar(value)
+}
+
+/**
+ * Write a `key: value` entry, nesting block values one level deeper than the key
+ */
+function writeEntry(lines: string[], indent: string, key: string, value: unknown): void {
+  const rendered = renderValue(value)
+  if (typeof rendered === "string") {
+    lines.push(`${indent}${key}: ${rendered}`)
+  } else {
+    lines.push(`${indent}${key}:`)
+    lines.push(...rendered.map((line) => `${indent}  ${line}`))
+  }
+}
+
+/**
+ * Write a `- value` sequence element, continuing block values after the dash
+ */
+function writeElement(lines: string[], indent: string, value: unknown): void {
+  const rendered = renderValue(value)
+  if (typeof rendered === "string") {
+    lines.push(`${indent}- ${rendered}`)
+  } else {
+    lines.push(`${indent}- ${rendered[0]}`)
+    lines.push(...rendered.slice(1).map((line) => `${indent}  ${line}`))
+  }
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) { return "null" }
+  if (typeof value === "boolean") { return value ? "true" : "false" }
+  if (typeof value === "number" || typeof value === "bigint") { return value.toString() }
+  if (typeof value === "string") { return formatString(value) }
+  if (value instanceof Uint8Array) { return `!!binary "${btoa(String.fromCharCode(...value))}"` }
+  return formatString(String(value))
+}
+
+/**
+ * Format a date as a YAML timestamp, which is read back as a date rather than a string
+ */
+function formatTimestamp(value: Date): string {
+  return formatDate(value, "iso8601") as string
+}
+
+/**
+ * Format a string as a plain scalar, quoting it when it contains special
+ * characters or would otherwise be read back as another type
+ */
+function formatString(value: string): string {
+  if (
+    value === "" || value.trim() !== value || /[\n:\-'"#]/.test(value) || /^[\[\]{}!&*|>%@`,?]/.test(value) ||
+    isReservedScalar(value)
+  ) {
+    return JSON.stringify(value)
+  }
+  return value
+}
+
+function isReservedScalar(value: string): boolean {
+  return ["null", "~", "true", "false"].includes(value) || /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value)
+}
+
+/**
+ * YAML timestamps: a date, optionally followed by a time and a time zone
+ */
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}([Tt ]\d{1,2}:\d{2}:\d{2}(\.\d+)?( ?(Z|[+-]\d{1,2}(:?\d{2})?))?)?$/
+
 /**
  * YAML sequence serializer
  */
 class YamlSeqSerializer implements SeqSerializer {
-  private isFirstElement = true
+  private empty = true
 
   constructor(private lines: string[], private indentLevel: number) {}
 
   serializeElement<T>(value: T): void {
-    const indent = "  ".repeat(this.indentLevel)
-
-    if (typeof value === "object" && value !== null && SERIALIZE in value) {
-      const serializer = new YamlSerializer()
-      serializer.indentLevel = this.indentLevel + 1
-      ;(value as any)[SERIALIZE](serializer)
-      const result = serializer.getResult()
-
-      if (result.includes("\n")) {
-        // Multi-line value
-        this.lines.push(`${indent}- |`)
-        result.split("\n").forEach((line) => {
-          this.lines.push(`${indent}  ${line}`)
-        })
-      } else {
-        this.lines.push(`${indent}- ${result}`)
-      }
-    } else {
-      const yamlValue = this.formatSimpleValue(value)
-      this.lines.push(`${indent}- ${yamlValue}`)
-    }
-  }
-
-  private formatSimpleValue(value: unknown): string {
-    if (value === null) { return "null" }
-    if (typeof value === "boolean") { return value ? "true" : "false" }
-    if (typeof value === "number") { return value.toString() }
-    if (typeof value === "string") {
-      if (value.includes("\n") || value.includes(":") || value.includes("-")) {
-        return `"${value.replace(/"/g, '\\"')}"`
-      }
-      return value
-    }
-    return String(value)
+    this.empty = false
+    writeElement(this.lines, "  ".repeat(this.indentLevel), value)
   }
 
   end(): void {
-    // Nothing special needed for YAML sequences
+    if (this.empty) {
+      this.lines.push(`${"  ".repeat(this.indentLevel)}[]`)
+    }
   }
 }
 
@@ -162,26 +278,13 @@ class YamlSeqSerializer implements SeqSerializer {
  * YAML map serializer
  */
 class YamlMapSerializer implements MapSerializer {
+  private empty = true
+
   constructor(private lines: string[], private indentLevel: number) {}
 
   serializeEntry<K, V>(key: K, value: V): void {
-    const indent = "  ".repeat(this.indentLevel)
-    const keyStr = String(key)
-
-    if (typeof value === "object" && value !== null && SERIALIZE in value) {
-      this.lines.push(`${indent}${keyStr}:`)
-      const serializer = new YamlSerializer()
-      serializer.indentLevel = this.indentLevel + 1
-      ;(value as any)[SERIALIZE](serializer)
-      const result = serializer.getResult()
-
-      result.split("\n").forEach((line) => {
-        this.lines.push(`${indent}  ${line}`)
-      })
-    } else {
-      const yamlValue = this.formatSimpleValue(value)
-      this.lines.push(`${indent}${keyStr}: ${yamlValue}`)
-    }
+    this.empty = false
+    writeEntry(this.lines, "  ".repeat(this.indentLevel), formatString(String(key)), value)
   }
 
   serializeKey<K>(key: K): void {
@@ -192,21 +295,10 @@ class YamlMapSerializer implements MapSerializer {
     throw new SerializationError("Use serializeEntry for YAML maps")
   }
 
-  private formatSimpleValue(value: unknown): string {
-    if (value === null) { return "null" }
-    if (typeof value === "boolean") { return value ? "true" : "false" }
-    if (typeof value === "number") { return value.toString() }
-    if (typeof value === "string") {
-      if (value.includes("\n") || value.includes(":") || value.includes("-")) {
-        return `"${value.replace(/"/g, '\\"')}"`
-      }
-      return value
-    }
-    return String(value)
-  }
-
   end(): void {
-    // Nothing special needed for YAML maps
+    if (this.empty) {
+      this.lines.push(`${"  ".repeat(this.indentLevel)}{}`)
+    }
   }
 }
 
@@ -214,46 +306,23 @@ class YamlMapSerializer implements MapSerializer {
  * YAML struct serializer
  */
 class YamlStructSerializer implements StructSerializer {
+  private empty = true
+
   constructor(private lines: string[], private indentLevel: number) {}
 
   serializeField<T>(name: string, value: T): void {
-    const indent = "  ".repeat(this.indentLevel)
-
-    if (typeof value === "object" && value !== null && SERIALIZE in value) {
-      this.lines.push(`${indent}${name}:`)
-      const serializer = new YamlSerializer()
-      serializer.indentLevel = this.indentLevel + 1
-      ;(value as any)[SERIALIZE](serializer)
-      const result = serializer.getResult()
-
-      result.split("\n").forEach((line) => {
-        this.lines.push(`${indent}  ${line}`)
-      })
-    } else {
-      const yamlValue = this.formatSimpleValue(value)
-      this.lines.push(`${indent}${name}: ${yamlValue}`)
-    }
+    this.empty = false
+    writeEntry(this.lines, "  ".repeat(this.indentLevel), name, value)
   }
 
   skipField(name: string): void {
     // Don't add the field to the output
   }
 
-  private formatSimpleValue(value: unknown): string {
-    if (value === null) { return "null" }
-    if (typeof value === "boolean") { return value ? "true" : "false" }
-    if (typeof value === "number") { return value.toString() }
-    if (typeof value === "string") {
-      if (value.includes("\n") || value.includes(":") || value.includes("-")) {
-        return `"${value.replace(/"/g, '\\"')}"`
-      }
-      return value
-    }
-    return String(value)
-  }
-
   end(): void {
-    // Nothing special needed for YAML structs
+    if (this.empty) {
+      this.lines.push(`${"  ".repeat(this.indentLevel)}{}`)
+    }
   }
 }
 
@@ -261,34 +330,26 @@ class YamlStructSerializer implements StructSerializer {
  * YAML option serializer
  */
 class YamlOptionSerializer<T> implements OptionSerializer<T> {
-  constructor(
-    private lines: string[],
-    private indentLevel: number,
-    private value: T | null | undefined,
-  ) {}
+  constructor(private serializer: YamlSerializer) {}
 
   serializeSome(value: T): void {
-    if (typeof value === "object" && value !== null && SERIALIZE in value) {
-      const serializer = new YamlSerializer()
-      serializer.indentLevel = this.indentLevel
-      ;(value as any)[SERIALIZE](serializer)
-      this.lines.push(...serializer.lines)
-    } else {
-      this.lines.push(String(value))
-    }
+    this.serializer.writeValue(value)
   }
 
   serializeNone(): void {
-    this.lines.push("null")
+    this.serializer.serializeNull()
   }
 }
 
 /**
- * Basic YAML parser for deserialization
+ * Basic YAML parser for deserialization, supporting block maps and sequences
+ * nested by indentation, and plain or quoted scalars
  */
 class YamlParser {
-  private lines: string[]
+  private readonly lines: readonly string[]
   private currentLine = 0
+  /** A line whose leading dash was consumed, to be read from the column of the item's content */
+  private itemStart?: { line: number; column: number }
 
   constructor(yaml: string) {
     this.lines = yaml.split("\n").map((line) => line.trimEnd())
@@ -299,26 +360,26 @@ class YamlParser {
   }
 
   private parseValue(minIndent: number): unknown {
+    this.skipBlankLines()
     if (this.currentLine >= this.lines.length) {
       return null
     }
 
-    const line = this.lines[this.currentLine]
+    const line = this.getLine()
     const indent = this.getIndent(line)
     const content = line.trim()
 
-    if (!content || content.startsWith("#")) {
-      this.currentLine++
-      return this.parseValue(minIndent)
+    if (indent < minIndent) {
+      return null
     }
 
     // Check for sequence
-    if (content.startsWith("- ")) {
+    if (this.isSequenceItem(content)) {
       return this.parseSequence(indent)
     }
 
     // Check for map
-    if (content.includes(": ")) {
+    if (this.splitEntry(content)) {
       return this.parseMap(indent)
     }
 
@@ -327,29 +388,50 @@ class YamlParser {
     return this.parseScalar(content)
   }
 
+  /**
+   * Parse the block value following a `key:` or a bare `-`, which is either indented
+   * deeper than its parent or, for sequences, may start at the parent's indentation
+   */
+  private parseNested(parentIndent: number, allowSequenceAtParent: boolean): unknown {
+    this.skipBlankLines()
+    if (this.currentLine >= this.lines.length) {
+      return null
+    }
+
+    const line = this.getLine()
+    const indent = this.getIndent(line)
+    if (indent > parentIndent) {
+      return this.parseValue(indent)
+    }
+    if (allowSequenceAtParent && indent === parentIndent && this.isSequenceItem(line.trim())) {
+      return this.parseSequence(indent)
+    }
+    return null
+  }
+
   private parseSequence(indent: number): unknown[] {
     const sequence: unknown[] = []
 
-    while (this.currentLine < this.lines.length) {
-      const line = this.lines[this.currentLine]
-      const lineIndent = this.getIndent(line)
+    while (this.skipBlankLines() && this.currentLine < this.lines.length) {
+      const line = this.getLine()
       const content = line.trim()
 
-      if (lineIndent < indent || (!content.startsWith("- ") && content !== "")) {
+      if (this.getIndent(line) !== indent || !this.isSequenceItem(content)) {
         break
       }
 
-      if (content.startsWith("- ")) {
+      const value = content.substring(1).trim()
+      if (!value) {
         this.currentLine++
-        const value = content.substring(2).trim()
-        if (value) {
-          sequence.push(this.parseScalar(value))
-        } else {
-          // Multi-line or nested value
-          sequence.push(this.parseValue(indent + 2))
-        }
+        sequence.push(this.parseNested(indent, false))
+      } else if (this.isSequenceItem(value) || this.splitEntry(value)) {
+        // Nested block starting on the same line as the dash: re-read it at its own indentation
+        const valueIndent = line.indexOf(value)
+        this.itemStart = { line: this.currentLine, column: valueIndent }
+        sequence.push(this.parseValue(valueIndent))
       } else {
         this.currentLine++
+        sequence.push(this.parseScalar(value))
       }
     }
 
@@ -359,55 +441,99 @@ class YamlParser {
   private parseMap(indent: number): Record<string, unknown> {
     const map: Record<string, unknown> = {}
 
-    while (this.currentLine < this.lines.length) {
-      const line = this.lines[this.currentLine]
-      const lineIndent = this.getIndent(line)
-      const content = line.trim()
+    while (this.skipBlankLines() && this.currentLine < this.lines.length) {
+      const line = this.getLine()
+      const entry = this.splitEntry(line.trim())
 
-      if (lineIndent < indent || !content) {
+      if (this.getIndent(line) !== indent || !entry) {
         break
       }
 
-      if (lineIndent === indent && content.includes(": ")) {
-        const colonIndex = content.indexOf(": ")
-        const key = content.substring(0, colonIndex).trim()
-        const value = content.substring(colonIndex + 2).trim()
-
-        this.currentLine++
+      const [key, value] = entry
+      this.currentLine++
 
-        if (value) {
-          map[key] = this.parseScalar(value)
-        } else {
-          // Multi-line or nested value
-          map[key] = this.parseValue(indent + 2)
-        }
+      if (value) {
+        map[key] = this.parseScalar(value)
       } else {
-        this.currentLine++
+        // Multi-line or nested value
+        map[key] = this.parseNested(indent, true)
       }
     }
 
     return map
   }
 
+  /**
+   * Split a `key: value` or `key:` line into its key and (possibly empty) value
+   */
+  private splitEntry(content: string): [string, string] | null {
+    const match = /^("(?:[^"\\]|\\.)*"|[^\s"'#\-\[{][^:]*?):(?:\s+(.*))?$/.exec(content)
+    if (!match) {
+      return null
+    }
+    const key = match[1].startsWith('"') ? JSON.parse(match[1]) : match[1].trim()
+    return [key, (match[2] ?? "").trim()]
+  }
+
+  /**
+   * Get the current line, with the dash of a sequence item read as indentation once its
+   * content is parsed as a nested block
+   */
+  private getLine(): string {
+    const line = this.lines[this.currentLine]
+    if (this.itemStart?.line !== this.currentLine) {
+      return line
+    }
+    return " ".repeat(this.itemStart.column) + line.slice(this.itemStart.column)
+  }
+
+  private isSequenceItem(content: string): boolean {
+    return content === "-" || content.startsWith("- ")
+  }
+
+  private skipBlankLines(): true {
+    while (this.currentLine < this.lines.length) {
+      const content = this.getLine().trim()
+      if (content && !content.startsWith("#")) {
+        break
+      }
+      this.currentLine++
+    }
+    return true
+  }
+
   private parseScalar(value: string): unknown {
     if (value === "null" || value === "~") { return null }
     if (value === "true") { return true }
     if (value === "false") { return false }
+    if (value === "[]") { return [] }
+    if (value === "{}") { return {} }
 
     // Try to parse as number
     if (/^-?\d+$/.test(value)) {
-      return parseInt(value, 10)
+      const integer = parseInt(value, 10)
+      // Keep every digit of integers beyond the safe range
+      return Number.isSafeInteger(integer) ? integer : BigInt(value)
     }
-    if (/^-?\d+\.\d+$/.test(value)) {
+    if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value)) {
       return parseFloat(value)
     }
 
+    // Unquoted timestamps are dates, strings that look like one are always quoted
+    if (TIMESTAMP.test(value)) {
+      return new Date(value)
+    }
+
     // Handle quoted strings
-    if (
-      (value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))
-    ) {
-      return value.slice(1, -1).replace(/\\"/g, '"')
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value.slice(1, -1).replace(/\\"/g, '"')
+      }
+    }
+    if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+      return value.slice(1, -1).replace(/''/g, "'")
     }
 
     return value
@@ -439,8 +565,12 @@ export class YamlDeserializer implements Deserializer {
       return visitor.visitBool(this.data)
     } else if (typeof this.data === "number") {
       return visitor.visitNumber(this.data)
+    } else if (typeof this.data === "bigint") {
+      return visitor.visitBigInt(this.data)
     } else if (typeof this.data === "string") {
       return visitor.visitString(this.data)
+    } else if (this.data instanceof Date) {
+      return visitor.visitDate(this.data)
     } else if (Array.isArray(this.data)) {
       return visitor.visitSeq(new YamlSeqAccess(this.data))
     } else if (typeof this.data === "object") {
@@ -464,6 +594,20 @@ export class YamlDeserializer implements Deserializer {
     throw new DeserializationError(`Expected number, found ${typeof this.data}`)
   }
 
+  deserializeBigInt<T>(visitor: Visitor<T>): T {
+    if (typeof this.data === "bigint") {
+      return visitor.visitBigInt(this.data)
+    }
+    if (typeof this.data === "number" && Number.isSafeInteger(this.data)) {
+      return visitor.visitBigInt(BigInt(this.data))
+    }
+    // Integers are also commonly written as strings by producers that can't write them exactly
+    if (typeof this.data === "string" && /^-?\d+$/.test(this.data)) {
+      return visitor.visitBigInt(BigInt(this.data))
+    }
+    throw new DeserializationError(`Expected integer, found ${typeof this.data}`)
+  }
+
   deserializeString<T>(visitor: Visitor<T>): T {
     if (typeof this.data === "string") {
       return visitor.visitString(this.data)
@@ -480,6 +624,16 @@ export class YamlDeserializer implements Deserializer {
     }
     throw new DeserializationError(`Expected binary string for bytes, found ${typeof this.data}`)
   }
+  deserializeDate<T>(visitor: Visitor<T>, format?: DateFormat): T {
+    if (this.data instanceof Date) {
+      return visitor.visitDate(this.data)
+    }
+    const date = parseDate(this.data, format)
+    if (date) {
+      return visitor.visitDate(date)
+    }
+    throw new DeserializationError(`Expected ${format ?? "timestamp"}, found ${typeof this.data}`)
+  }
 
   deserializeSeq<T>(visitor: Visitor<T>): T {
     if (Array.isArray(this.data)) {
@@ -509,7 +663,7 @@ export class YamlDeserializer implements Deserializer {
     return this.deserializeAny(visitor)
   }
 
-  deserializeEnum<T>(name: string, variants: string[], visitor: Visitor<T>): T {
+  deserializeEnum<T>(name: string, variants: (string | number)[], visitor: Visitor<T>): T {
     return visitor.visitEnum(new YamlEnumAccess(this.data))
   }
 }
@@ -578,8 +732,8 @@ class YamlMapAccess implements MapAccess {
 class YamlEnumAccess implements EnumAccess {
   constructor(private data: unknown) {}
 
-  variant<T>(): [string, T] {
-    if (typeof this.data === "string") {
+  variant<T>(): [string | number, T] {
+    if (typeof this.data === "string" || typeof this.data === "number") {
       // Simple enum variant
       return [this.data, undefined as T]
     } else if (typeof this.data === "object" && this.data !== null) {
@@ -611,11 +765,19 @@ export function toYaml(value: Serialize): string {
  *
  * @param yaml The YAML string to parse
  * @param ctor Constructor that implements Deserialize trait
+ * @param options Set `collectErrors` to report every invalid field at once
  * @returns The deserialized value
  */
-export function fromYaml<T extends Deserialize>(yaml: string, ctor: new (...args: any[]) => T): T {
+export function fromYaml<T extends Deserialize>(
+  yaml: string,
+  ctor: Class<T>,
+  options: DeserializeOptions = {},
+): T {
   const parser = new YamlParser(yaml)
   const data = parser.parse()
   const deserializer = new YamlDeserializer(data)
+  if (options.collectErrors) {
+    return collectIssues(() => deserialize<T, YamlDeserializer>(ctor, deserializer))
+  }
   return deserialize<T, YamlDeserializer>(ctor, deserializer)
 }
@@ -1,6 +1,6 @@
 import { assertEquals } from "@std/assert"
-import { YamlDeserializer, YamlSerializer } from "../mod.ts"
-import { DESERIALIZE, deserializeUnknown, SERIALIZE, serializeUnknown } from "@dezer/core"
+import { fromYaml, YamlDeserializer, YamlSerializer } from "../mod.ts"
+import { DESERIALIZE, deserializeUnknown, SERIALIZE, serializeAs, serializeUnknown } from "@dezer/core"
 import type { Deserialize, Deserializer, MapAccess, Serialize, Serializer } from "@dezer/core"
 
 class TestClass {
@@ -56,6 +56,10 @@ interface TestClass extends Serialize, Deserialize {} // Manually implement the
       throw new Error("Expected struct TestClass, found number")
     },
 
+    visitBigInt() {
+      throw new Error("Expected struct TestClass, found bigint")
+    },
+
     visitString() {
       throw new Error("Expected struct TestClass, found string")
     },
@@ -64,6 +68,10 @@ interface TestClass extends Serialize, Deserialize {} // Manually implement the
       throw new Error("Expected struct TestClass, found bytes")
     },
 
+    visitDate() {
+      throw new Error("Expected struct TestClass, found date")
+    },
+
     visitSeq() {
       throw new Error("Expected struct TestClass, found sequence")
     },
@@ -216,3 +224,116 @@ Deno.test("YAML format - should produce readable output", () => {
   assertEquals(restored.age, original.age)
   assertEquals(restored instanceof TestClass, true)
 })
+
+Deno.test("YAML Parser - should parse nested maps and sequences", () => {
+  class RawData {
+    [DESERIALIZE]<D extends Deserializer>(deserializer: D): RawData {
+      // Check the parsed data as is
+      return (deserializer as Deserializer as YamlDeserializer)["data"] as RawData
+    }
+  }
+
+  const yaml = `name: Blog
+author:
+  name: Bob
+  age: 25
+posts:
+  - title: First
+    tags:
+      - a
+      - "b: c"
+  - title: Second
+    tags: []
+empty: {}`
+
+  assertEquals(fromYaml(yaml, RawData), {
+    name: "Blog",
+    author: { name: "Bob", age: 25 },
+    posts: [{ title: "First", tags: ["a", "b: c"] }, { title: "Second", tags: [] }],
+    empty: {},
+  })
+})
+
+Deno.test("YAML Parser - should parse quoted scalars and blocks starting after a dash", () => {
+  class RawData {
+    [DESERIALIZE]<D extends Deserializer>(deserializer: D): RawData {
+      // Check the parsed data as is
+      return (deserializer as Deserializer as YamlDeserializer)["data"] as RawData
+    }
+  }
+
+  const yaml = `# comment
+quoted:
+  - "a \\"b\\" \\u00e9"
+  - 'it''s'
+  - "123"
+  - "2024-03-05"
+  - 2024-03-05
+matrix:
+  - - 1
+    - 2
+  - - key: x
+      other: y
+    - 3
+items:
+  - name: a
+
+    # between keys
+    size: 1
+  - name: b`
+
+  assertEquals(fromYaml(yaml, RawData), {
+    quoted: ['a "b" é', "it's", "123", "2024-03-05", new Date("2024-03-05")],
+    matrix: [[1, 2], [{ key: "x", other: "y" }, 3]],
+    items: [{ name: "a", size: 1 }, { name: "b" }],
+  })
+})
+
+Deno.test("YamlSerializer - should round-trip nested values", () => {
+  class NestedClass {
+    constructor(public inner: TestClass, public tags: string[]) {}
+
+    [SERIALIZE](serializer: Serializer): void {
+      const struct = serializer.serializeStruct("NestedClass", 2)
+      struct.serializeField("inner", this.inner)
+      struct.serializeField("tags", this.tags)
+      struct.end()
+    }
+  }
+
+  const serializer = new YamlSerializer()
+  serializeUnknown(new NestedClass(new TestClass("Bob", 25), ["x", "true"]), serializer)
+  const yaml = serializer.getResult()
+
+  assertEquals(yaml, 'inner:\n  name: Bob\n  age: 25\ntags:\n  - x\n  - "true"')
+})
+
+Deno.test("YamlSerializer - should write dates as timestamps", () => {
+  class Stamped {
+    constructor(public at: Date, public label: string) {}
+
+    [SERIALIZE](serializer: Serializer): void {
+      const struct = serializer.serializeStruct("Stamped", 3)
+      struct.serializeField("at", this.at)
+      struct.serializeField("day", serializeAs((serializer) => serializer.serializeDate(this.at, "dateOnly")))
+      struct.serializeField("label", this.label)
+      struct.end()
+    }
+
+    [DESERIALIZE]<D extends Deserializer>(deserializer: D): Stamped {
+      // Check the parsed data, before any validation
+      return (deserializer as Deserializer as YamlDeserializer)["data"] as Stamped
+    }
+  }
+
+  const serializer = new YamlSerializer()
+  serializeUnknown(new Stamped(new Date("2024-03-05T10:20:30.000Z"), "2024-03-05"), serializer)
+  const yaml = serializer.getResult()
+  assertEquals(yaml, 'at: 2024-03-05T10:20:30.000Z\nday: "2024-03-05"\nlabel: "2024-03-05"')
+
+  assertEquals(fromYaml(yaml, Stamped), {
+    at: new Date("2024-03-05T10:20:30.000Z"),
+    day: "2024-03-05",
+    label: "2024-03-05",
+  })
+})
@@ -29,37 +29,118 @@
  */
 
 // Core traits and symbols
-export { DESERIALIZE, deserialize, deserializeUnknown, SERIALIZE, serialize, serializeUnknown } from "./src/traits.ts"
+export {
+  DESERIALIZE,
+  deserialize,
+  deserializeUnknown,
+  getPrivateField,
+  getTypeArguments,
+  registerSubclass,
+  SERIALIZE,
+  serialize,
+  serializeUnknown,
+  setPrivateFields,
+  TRANSPARENT,
+  TYPE_ARGUMENTS,
+  withTypeArguments,
+} from "./src/traits.ts"
 export type { Deserialize, Serialize } from "./src/traits.ts"
 
 // Serializer interfaces (for format implementations)
 export type { MapSerializer, OptionSerializer, SeqSerializer, Serializer, StructSerializer } from "./src/serializer.ts"
-export { SerializationError, serializePrimitive } from "./src/serializer.ts"
+export {
+  formatDate,
+  isDefaultValue,
+  isEmptyValue,
+  runSerializeHooks,
+  SerializationError,
+  serializeAs,
+  serializeEnumKey,
+  serializeEnumValue,
+  serializeFlattened,
+  serializeNullable,
+  serializePrimitive,
+  serializeUnionValue,
+} from "./src/serializer.ts"
 
 // Deserializer and visitor interfaces (for format implementations)
 export type { Deserializer, EnumAccess, MapAccess, SeqAccess, Visitor } from "./src/deserializer.ts"
-export { BaseVisitor, DeserializationError, PrimitiveVisitor } from "./src/deserializer.ts"
+export { BaseVisitor, DeserializationError, parseDate, PrimitiveVisitor } from "./src/deserializer.ts"
 
 // Validation utilities (for generated code)
 export {
+  collectIssues,
+  deserializeBigIntValue,
+  deserializeDateValue,
+  deserializeEnumKey,
+  deserializeEnumValue,
+  deserializeFlattened,
   deserializeNestedObject,
+  deserializeNewtype,
+  deserializeNullable,
   deserializeObjectArray,
+  deserializeSubclass,
+  deserializeTypeArgument,
+  deserializeUnionValue,
+  recordIssue,
+  rejectMissingField,
+  rejectUnknownField,
+  runDeserializeHooks,
   validateArray,
+  validateBigInt,
   validateBoolean,
   validateBooleanArray,
+  validateBytes,
+  validateConstraints,
   validateDate,
   validateNumber,
   validateNumberArray,
+  validateNumberKey,
   validateObject,
   validateObjectArray,
+  validateRegExp,
   validateString,
   validateStringArray,
+  validateTemporal,
+  validateTuple,
+  validateTypedArray,
+  validateURL,
   ValidationError,
 } from "./src/validation.ts"
+export type { TemporalType, TypedArrayConstructor, ValidationIssue } from "./src/validation.ts"
 
 // Decorators for user code
-export { Custom, Field, Ignore, Serializable } from "./src/decorators.ts"
-export type { CustomDeserializer, CustomSerializer, FieldOptions, SerializableOptions } from "./src/types.ts"
+export {
+  AfterDeserialize,
+  BeforeSerialize,
+  Custom,
+  Field,
+  Ignore,
+  Serializable,
+  SerializableEnum,
+  SerializableRemote,
+  Validate,
+} from "./src/decorators.ts"
+export type {
+  Class,
+  CustomDeserializer,
+  CustomSerializer,
+  DateFormat,
+  DeserializeOptions,
+  EnumOptions,
+  EnumVariant,
+  FieldConstraints,
+  FieldOptions,
+  Mutable,
+  RenameAll,
+  RenameRule,
+  SerializableOptions,
+  StringFormat,
+  TypeArgument,
+  TypeArgumentValue,
+  UnionRepresentation,
+  UnionVariant,
+} from "./src/types.ts"
 
 // Compiler utilities for format implementations and advanced usage
 export { parseSourceFile } from "./src/compiler/parser.ts"
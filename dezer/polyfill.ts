@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Opt-in polyfill for `Symbol.metadata`
+ *
+ * `@Field` records `#private` fields in the decorator metadata of their class, which is only
+ * passed to decorators where `Symbol.metadata` exists. On runtimes without it, import this
+ * module before the classes are defined.
+ */
+;(Symbol as { metadata?: symbol }).metadata ??= Symbol.for("Symbol.metadata")
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Platform value types that are serialized by core helpers instead of generated code
+ */
+
+/**
+ * Typed arrays, written as sequences of numbers. `Uint8Array` is written as bytes instead.
+ */
+const TYPED_ARRAYS = new Set([
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Float32Array",
+  "Float64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+])
+
+/**
+ * Temporal types, written as the ISO 8601 strings their `toString` and `from` use
+ */
+const TEMPORAL_TYPES = new Set([
+  "Temporal.Instant",
+  "Temporal.ZonedDateTime",
+  "Temporal.PlainDate",
+  "Temporal.PlainTime",
+  "Temporal.PlainDateTime",
+  "Temporal.PlainYearMonth",
+  "Temporal.PlainMonthDay",
+  "Temporal.Duration",
+])
+
+/**
+ * Check whether a type name, e.g. `URL` or `Temporal.Instant`, is a platform value type
+ */
+export function isBuiltinType(name: string): boolean {
+  return name === "URL" || name === "RegExp" || isTypedArray(name) || isTemporalType(name)
+}
+
+export function isTypedArray(name: string): boolean {
+  return TYPED_ARRAYS.has(name)
+}
+
+export function isTemporalType(name: string): boolean {
+  return TEMPORAL_TYPES.has(name)
+}
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Case conversion for `renameAll` rules
+ */
+
+import type { RenameRule } from "../types.ts"
+
+/**
+ * Rename a field or variant name according to a case convention
+ *
+ * @param name The name as declared, e.g. `createdAt`, `CREATED_AT` or `CreatedAt`
+ * @param rule The case convention to apply
+ * @returns The renamed name, e.g. `created_at` for snake_case
+ */
+export function applyRenameRule(name: string, rule: RenameRule): string {
+  const words = splitWords(name)
+
+  switch (rule) {
+    case "camelCase":
+      return words.map((word, i) => i === 0 ? word.toLowerCase() : capitalize(word)).join("")
+    case "PascalCase":
+      return words.map(capitalize).join("")
+    case "snake_case":
+      return words.map((word) => word.toLowerCase()).join("_")
+    case "SCREAMING_SNAKE_CASE":
+      return words.map((word) => word.toUpperCase()).join("_")
+    case "kebab-case":
+      return words.map((word) => word.toLowerCase()).join("-")
+  }
+}
+
+/**
+ * Split an identifier into words at separators and case changes, keeping acronyms
+ * together: `parseHTTPResponse2` becomes `parse`, `HTTP`, `Response2`
+ */
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter((word) => word.length > 0)
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+}
@@ -5,37 +5,257 @@
  * instead of direct format-specific serialization.
  */
 
-import type { ParsedClass, ParsedField } from "../types.ts"
+import type {
+  ParsedClass,
+  ParsedEnum,
+  ParsedExpression,
+  ParsedField,
+  ParsedHooks,
+  ParsedImport,
+  ParsedType,
+  ParsedTypeParameter,
+  RenameAll,
+  RenameRule,
+  SerializableOptions,
+} from "../types.ts"
+import { isBuiltinType, isTemporalType, isTypedArray } from "./builtins.ts"
+import { applyRenameRule } from "./case.ts"
 
 export function generateSerializationCode(parsedClass: ParsedClass): string {
-  const { name, fields } = parsedClass
-  const moduleAugmentation = generateModuleAugmentation(name, parsedClass.filePath)
-  const serializeMethod = generateSerializeMethod(name, fields)
-  const deserializeMethod = generateDeserializeMethod(name, fields)
-
-  return `${moduleAugmentation}
-
-${serializeMethod}
+  const { fields, remote, typeParameters = [] } = parsedClass
+  // Remote mirrors install the methods on the foreign class they describe
+  const name = remote?.expression ?? parsedClass.name
+  const moduleAugmentation = remote
+    ? generateRemoteAugmentation(remote)
+    : generateModuleAugmentation(name, parsedClass.filePath, typeParameters)
+  const { renameAll, transparent } = parsedClass.options
+  const methods = transparent
+    ? [
+      generateTransparentSerializeMethod(name, getTransparentField(parsedClass), parsedClass.hooks),
+      generateTransparentDeserializeMethod(name, getTransparentField(parsedClass), parsedClass),
+      generateTransparentMarker(name),
+    ]
+    : [
+      generateSerializeMethod(
+        name,
+        renameFields(fields, getRenameRule(renameAll, "serialize")),
+        getTypeIdField(parsedClass),
+        parsedClass.hooks,
+      ),
+      generateDeserializeMethod(
+        name,
+        renameFields(fields, getRenameRule(renameAll, "deserialize")),
+        typeParameters,
+        parsedClass.options,
+        parsedClass.constructorParameters,
+        parsedClass.hasPrivateState,
+        parsedClass.discriminator,
+        parsedClass.hooks,
+      ),
+    ]
+  if (typeParameters.length > 0) {
+    methods.push(generateOfMethod(name))
+  }
+  const typeIdField = getTypeIdField(parsedClass)
+  if (typeIdField && !transparent) {
+    methods.push(`$dezer.registerSubclass(${name}, ${JSON.stringify(typeIdField.typeId)})`)
+  }
 
-${deserializeMethod}`
+  return [moduleAugmentation, ...methods].join("\n\n")
 }
 
-function generateModuleAugmentation(className: string, filePath: string): string {
+function generateModuleAugmentation(
+  className: string,
+  filePath: string,
+  typeParameters: ParsedTypeParameter[],
+): string {
   const relativePath = "./" + filePath.split("/").pop()
 
+  if (typeParameters.length > 0) {
+    const declarations = typeParameters.map((p) => p.declaration).join(", ")
+    const ofTypeParameters = typeParameters.map((p) => `${p.name} extends $dezer.TypeArgument`).join(", ")
+    const ofParameters = typeParameters.map((p) => p.name).join(", ")
+    const values = typeParameters.map((p) => `$dezer.TypeArgumentValue<${p.name}>`).join(", ")
+
+    return `declare module "${relativePath}" {
+  interface ${className}<${declarations}> extends Serialize, Deserialize {
+  }
+  namespace ${className} {
+    function of<${ofTypeParameters}>(...typeArguments: [${ofParameters}]): new (...args: never[]) => ${className}<${values}>
+  }
+}`
+  }
+
   return `declare module "${relativePath}" {
   interface ${className} extends Serialize, Deserialize {
   }
 }`
 }
 
-function generateSerializeMethod(className: string, fields: ParsedField[]): string {
-  const serializableFields = fields.filter((f) => !f.isIgnored)
-  const fieldSerializations = serializableFields.map((field) => generateFieldSerialization(field))
+/**
+ * Declare the traits on a foreign class, in the module it is imported from or globally
+ */
+function generateRemoteAugmentation(remote: ParsedExpression): string {
+  if (!remote.importFrom) {
+    return `declare global {
+  interface ${remote.expression} extends Serialize, Deserialize {
+  }
+}`
+  }
+
+  return `declare module "${remote.importFrom.module}" {
+  interface ${remote.importFrom.name} extends Serialize, Deserialize {
+  }
+}`
+}
+
+/**
+ * Generate the static `of` method binding the type arguments of a generic class, e.g. `Page.of(User)`
+ */
+function generateOfMethod(className: string): string {
+  return `Object.defineProperty(${className}, "of", {
+  value: function(...typeArguments: $dezer.TypeArgument[]) {
+    return $dezer.withTypeArguments(${className}, typeArguments)
+  },
+  enumerable: false,
+  configurable: false,
+  writable: false
+})`
+}
+
+/**
+ * Get the single field a transparent class is serialized as
+ */
+function getTransparentField(parsedClass: ParsedClass): ParsedField {
+  const fields = parsedClass.fields.filter((f) => !f.isIgnored && !f.options.skip)
+  if (fields.length !== 1) {
+    throw new Error(
+      `Transparent class ${parsedClass.name} must have exactly one serialized field, found ${fields.length}`,
+    )
+  }
+  return fields[0]
+}
+
+function generateTransparentSerializeMethod(className: string, field: ParsedField, hooks?: ParsedHooks): string {
+  const valueExpression = generateFieldAccess(className, field)
+  const serialization = field.serializeWith
+    ? `(${field.serializeWith.expression})(${valueExpression})`
+    : generateValueSerialization(valueExpression, getFieldType(field))
 
   return `Object.defineProperty(${className}.prototype, $dezer.SERIALIZE, {
   value: function(serializer: Serializer) {
-    const struct = serializer.serializeStruct("${className}", ${serializableFields.length})
+    ${generateSerializeHooks(className, hooks)}serializer.serializeNewtype("${className}", ${serialization})
+  },
+  enumerable: false,
+  configurable: false,
+  writable: false
+})`
+}
+
+/**
+ * Generate the [DESERIALIZE] method of a transparent class, which validates the plain value
+ * it receives as its single field
+ */
+function generateTransparentDeserializeMethod(className: string, field: ParsedField, parsedClass: ParsedClass): string {
+  const { options, typeParameters = [], constructorParameters = [] } = parsedClass
+  const target = getFieldTarget(options, constructorParameters)
+  const hasPrivateState = !!parsedClass.hasPrivateState
+  const hasPrivateFields = !!field.isPrivate
+  const deserialization = withConstraints(
+    field.deserializeWith
+      ? `(${field.deserializeWith.expression})(value)`
+      : generateValueDeserialization("value", getFieldType(field), field.propertyName),
+    field,
+  )
+  const typeArguments = typeParameters.length > 0 ? `\n    const typeArguments = $dezer.getTypeArguments(this)` : ""
+  const instanceType = typeParameters.length > 0 ? `InstanceType<typeof ${className}>` : className
+
+  return `Object.defineProperty(${className}.prototype, $dezer.DESERIALIZE, {
+  value: function(deserializer: Deserializer) {${typeArguments}
+    const value = $dezer.deserializeNewtype(deserializer)
+    ${generateInstanceDeclaration(className, instanceType, options, hasPrivateState, hasPrivateFields, "    ")}
+    ${target(field)} = ${deserialization}
+    return ${
+    withDeserializeHooks(
+      generateInstanceConstruction(className, options, constructorParameters, hasPrivateFields),
+      className,
+      parsedClass.hooks,
+    )
+  }
+  },
+  enumerable: false,
+  configurable: false,
+  writable: false
+})`
+}
+
+function generateTransparentMarker(className: string): string {
+  return `Object.defineProperty(${className}.prototype, $dezer.TRANSPARENT, {
+  value: true,
+  enumerable: false,
+  configurable: false,
+  writable: false
+})`
+}
+
+/**
+ * Generate the statement calling the `@BeforeSerialize` methods of `this`, if any
+ */
+function generateSerializeHooks(className: string, hooks?: ParsedHooks): string {
+  if (!hooks || hooks.beforeSerialize.length === 0) {
+    return ""
+  }
+  return `$dezer.runSerializeHooks(this, "${className}", ${generateNameList(hooks.beforeSerialize)})\n    `
+}
+
+/**
+ * Wrap the expression producing a deserialized instance in the call to its `@AfterDeserialize`
+ * and `@Validate` methods, if any
+ */
+function withDeserializeHooks(construction: string, className: string, hooks?: ParsedHooks): string {
+  if (!hooks || hooks.afterDeserialize.length + hooks.validate.length === 0) {
+    return construction
+  }
+  const validate = hooks.validate.length > 0 ? `, ${generateNameList(hooks.validate)}` : ""
+  return `$dezer.runDeserializeHooks(${construction}, "${className}", ${
+    generateNameList(hooks.afterDeserialize)
+  }${validate})`
+}
+
+function generateNameList(names: string[]): string {
+  return `[${names.map((name) => JSON.stringify(name)).join(", ")}]`
+}
+
+/**
+ * Get the discriminator field and type id written for instances of a class in a hierarchy
+ * with a discriminator. Abstract classes have no instances of their own.
+ */
+function getTypeIdField(parsedClass: ParsedClass): { discriminator: string; typeId: string } | undefined {
+  if (parsedClass.discriminator === undefined || parsedClass.isAbstract || parsedClass.remote) {
+    return undefined
+  }
+  return { discriminator: parsedClass.discriminator, typeId: parsedClass.options.name ?? parsedClass.name }
+}
+
+function generateSerializeMethod(
+  className: string,
+  fields: ParsedField[],
+  typeIdField?: { discriminator: string; typeId: string },
+  hooks?: ParsedHooks,
+): string {
+  const serializableFields = fields.filter(isSerialized)
+  const fieldSerializations = serializableFields.map((field) => generateFieldSerialization(className, field))
+  if (typeIdField) {
+    fieldSerializations.unshift(
+      `struct.serializeField(${JSON.stringify(typeIdField.discriminator)}, ${JSON.stringify(typeIdField.typeId)})`,
+    )
+  }
+
+  return `Object.defineProperty(${className}.prototype, $dezer.SERIALIZE, {
+  value: function(serializer: Serializer) {
+    ${
+    generateSerializeHooks(className, hooks)
+  }const struct = serializer.serializeStruct("${className}", ${fieldSerializations.length})
 ${fieldSerializations.map((fs) => `    ${fs}`).join("\n")}
     struct.end()
   },
@@ -45,57 +265,320 @@ ${fieldSerializations.map((fs) => `    ${fs}`).join("\n")}
 })`
 }
 
-function generateFieldSerialization(field: ParsedField): string {
+function generateFieldSerialization(className: string, field: ParsedField): string {
   const { propertyName, options } = field
   const serializedName = options.name || propertyName
+  const valueExpression = generateFieldAccess(className, field)
+
+  const serialization = field.serializeWith
+    ? `struct.serializeField("${serializedName}", (${field.serializeWith.expression})(${valueExpression}))`
+    : options.flatten
+    ? `$dezer.serializeFlattened(struct, ${generateValueSerialization(valueExpression, getFieldType(field))})`
+    : `struct.serializeField("${serializedName}", ${generateValueSerialization(valueExpression, getFieldType(field))})`
 
-  if (options.transform?.serialize) {
-    return `struct.serializeField("${serializedName}", (${options.transform.serialize.toString()})(this.${propertyName}))`
+  const skipConditions = generateSkipConditions(field, valueExpression)
+  if (skipConditions.length === 0) {
+    return serialization
   }
 
-  return `struct.serializeField("${serializedName}", ${generateValueSerialization(`this.${propertyName}`, field.type)})`
+  return `if (${skipConditions.join(" || ")}) {
+      struct.skipField("${serializedName}")
+    } else {
+      ${serialization}
+    }`
 }
 
-function generateValueSerialization(valueExpression: string, type: string): string {
-  switch (type) {
-    case "Date":
-      return `${valueExpression}?.toISOString?.()`
-    case "string":
-    case "number":
-    case "boolean":
-      return valueExpression
+/**
+ * Generate the conditions under which a field is omitted: optional fields that are
+ * undefined, and the field's `skipIf` option
+ */
+function generateSkipConditions(field: ParsedField, valueExpression: string): string[] {
+  const conditions: string[] = []
+  if (field.isOptional) {
+    conditions.push(`${valueExpression} === undefined`)
+  }
+
+  const { skipIf } = field
+  if (skipIf === "empty") {
+    conditions.push(`$dezer.isEmptyValue(${valueExpression})`)
+  } else if (skipIf === "default") {
+    const defaultValue = field.defaultValue ?? generateZeroValue(getFieldType(field))
+    conditions.push(`$dezer.isDefaultValue(${valueExpression}, ${defaultValue})`)
+  } else if (skipIf) {
+    conditions.push(`(${skipIf.expression})(${valueExpression})`)
+  }
+
+  return conditions
+}
+
+/**
+ * Generate the value a field of a type holds by default when it has no `default` option
+ */
+function generateZeroValue(type: ParsedType): string {
+  switch (type.kind) {
+    case "primitive":
+      switch (type.name) {
+        case "string":
+          return `""`
+        case "number":
+          return "0"
+        case "bigint":
+          return "0n"
+        case "boolean":
+          return "false"
+      }
+      return "undefined"
+    case "nullable":
+      return "null"
+    case "array":
+      return "[]"
+    case "set":
+      return "new Set()"
+    case "map":
+      return "new Map()"
+    case "record":
+      return "{}"
     default:
-      if (type.endsWith("[]")) {
-        // For arrays, we need to serialize each element
-        return `${valueExpression}`
+      return "undefined"
+  }
+}
+
+function generateValueSerialization(valueExpression: string, type: ParsedType, depth = 0): string {
+  switch (type.kind) {
+    case "enum":
+      return `$dezer.serializeAs((serializer) => $dezer.serializeEnumValue(serializer, ${
+        generateEnumArguments(type.enum, "serialize")
+      }, ${valueExpression}))`
+    case "nullable": {
+      const some = depth === 0 ? "some" : `some${depth}`
+      const someSerialization = generateValueSerialization(some, type.inner, depth + 1)
+      const convert = someSerialization === some ? "" : `, (${some}) => ${someSerialization}`
+      return `$dezer.serializeAs((serializer) => $dezer.serializeNullable(serializer, ${valueExpression}${convert}))`
+    }
+    case "union":
+      return `$dezer.serializeAs((serializer) => $dezer.serializeUnionValue(serializer, ${
+        generateUnionArguments(type)
+      }, ${valueExpression}))`
+    case "array": {
+      // Arrays are passed as-is unless their elements need custom handling
+      const item = depth === 0 ? "item" : `item${depth}`
+      const elementSerialization = generateValueSerialization(item, type.element, depth + 1)
+      const isPlainElement = type.element.kind === "primitive" || type.element.kind === "array" ||
+        type.element.kind === "tuple"
+      if (elementSerialization === item && isPlainElement) {
+        return valueExpression
+      }
+      return `$dezer.serializeAs((serializer) => {
+      const seq = serializer.serializeSeq(${valueExpression}.length)
+      for (const ${item} of ${valueExpression}) {
+        seq.serializeElement(${elementSerialization})
+      }
+      seq.end()
+    })`
+    }
+    case "tuple": {
+      // Tuples are passed as-is unless one of their elements needs custom handling
+      const item = depth === 0 ? "item" : `item${depth}`
+      const isPlain = type.elements.every((element) =>
+        generateValueSerialization(item, element.type, depth + 1) === item &&
+        (element.type.kind === "primitive" || element.type.kind === "array" || element.type.kind === "tuple")
+      )
+      if (isPlain) {
+        return valueExpression
       }
+      const elementSerializations = type.elements.map((element, index) => {
+        if (element.rest) {
+          return `for (const ${item} of ${valueExpression}.slice(${index})) {
+        seq.serializeElement(${generateValueSerialization(item, element.type, depth + 1)})
+      }`
+        }
+        const serialization = `seq.serializeElement(${
+          generateValueSerialization(`${valueExpression}[${index}]`, element.type, depth + 1)
+        })`
+        return element.optional
+          ? `if (${valueExpression}.length > ${index}) {\n        ${serialization}\n      }`
+          : serialization
+      })
+      return `$dezer.serializeAs((serializer) => {
+      const seq = serializer.serializeSeq(${valueExpression}.length)
+${elementSerializations.map((serialization) => `      ${serialization}`).join("\n")}
+      seq.end()
+    })`
+    }
+    case "set": {
+      const item = depth === 0 ? "item" : `item${depth}`
+      return `$dezer.serializeAs((serializer) => {
+      const seq = serializer.serializeSeq(${valueExpression}.size)
+      for (const ${item} of ${valueExpression}) {
+        seq.serializeElement(${generateValueSerialization(item, type.element, depth + 1)})
+      }
+      seq.end()
+    })`
+    }
+    case "map":
+    case "record": {
+      const key = depth === 0 ? "key" : `key${depth}`
+      const entry = depth === 0 ? "entry" : `entry${depth}`
+      const entries = type.kind === "map"
+        ? valueExpression
+        : `Object.entries<${formatType(type.value)}>(${valueExpression})`
+      const size = type.kind === "map" ? `${valueExpression}.size` : `Object.keys(${valueExpression}).length`
+      return `$dezer.serializeAs((serializer) => {
+      const map = serializer.serializeMap(${size})
+      for (const [${key}, ${entry}] of ${entries}) {
+        map.serializeEntry(${generateKeySerialization(key, type.key)}, ${
+        generateValueSerialization(entry, type.value, depth + 1)
+      })
+      }
+      map.end()
+    })`
+    }
+    case "date":
+      return `$dezer.serializeAs((serializer) => serializer.serializeDate(${valueExpression}${
+        generateDateFormatArgument(type)
+      }))`
+    case "builtin":
+      return generateBuiltinSerialization(valueExpression, type.name)
+    case "reference":
       // For complex objects, pass them as-is and let the serializer handle them
       return valueExpression
+    default:
+      return valueExpression
   }
 }
 
-function generateDeserializeMethod(className: string, fields: ParsedField[]): string {
-  const serializableFields = fields.filter((f) => !f.isIgnored)
-  const fieldNames = serializableFields.map((f) => `"${f.options.name || f.propertyName}"`)
-  const fieldMappings = serializableFields.map((field) => generateFieldMapping(field))
+/**
+ * Generate the serialization of a platform value type: bytes for `Uint8Array`, a sequence of
+ * numbers for other typed arrays, and a string for the rest
+ */
+function generateBuiltinSerialization(valueExpression: string, name: string): string {
+  if (name === "Uint8Array") {
+    return `$dezer.serializeAs((serializer) => serializer.serializeBytes(${valueExpression}))`
+  }
+  if (isTypedArray(name)) {
+    return `Array.from(${valueExpression})`
+  }
+  return name === "URL" ? `${valueExpression}.href` : `${valueExpression}.toString()`
+}
+
+/**
+ * Generate the serialization of a map key. Keys are written as-is unless they are enum values.
+ */
+function generateKeySerialization(keyExpression: string, type: ParsedType): string {
+  if (type.kind === "enum") {
+    return `$dezer.serializeEnumKey(${generateEnumArguments(type.enum, "serialize")}, ${keyExpression})`
+  }
+  return keyExpression
+}
+
+/**
+ * Generate the name, variants and representation arguments shared by the enum helpers,
+ * with variant names renamed by the enum's `renameAll` rule for the given direction
+ */
+function generateEnumArguments(parsedEnum: ParsedEnum, direction: "serialize" | "deserialize"): string {
+  const rule = getRenameRule(parsedEnum.options.renameAll, direction)
+  const variants = parsedEnum.variants.map((v) => {
+    const name = rule ? applyRenameRule(v.name, rule) : v.name
+    return `{ name: ${JSON.stringify(name)}, value: ${JSON.stringify(v.value)} }`
+  })
+  return `${JSON.stringify(parsedEnum.name)}, [${variants.join(", ")}], "${parsedEnum.options.serializeBy ?? "value"}"`
+}
+
+function getRenameRule(
+  renameAll: RenameAll | undefined,
+  direction: "serialize" | "deserialize",
+): RenameRule | undefined {
+  return typeof renameAll === "string" ? renameAll : renameAll?.[direction]
+}
+
+/**
+ * Give fields without an explicit name the name produced by a `renameAll` rule
+ */
+function renameFields(fields: ParsedField[], rule: RenameRule | undefined): ParsedField[] {
+  if (!rule) {
+    return fields
+  }
+  return fields.map((field) =>
+    field.options.name
+      ? field
+      : { ...field, options: { ...field.options, name: applyRenameRule(field.propertyName, rule) } }
+  )
+}
+
+function generateDeserializeMethod(
+  className: string,
+  fields: ParsedField[],
+  typeParameters: ParsedTypeParameter[] = [],
+  options: SerializableOptions = {},
+  constructorParameters: string[] = [],
+  hasPrivateState = false,
+  discriminator?: string,
+  hooks?: ParsedHooks,
+): string {
+  const target = getFieldTarget(options, constructorParameters)
+  const hasPrivateFields = fields.some((f) => f.isPrivate && !f.isIgnored && !f.options.skip)
+  const deserializableFields = fields.filter((f) => isDeserialized(f) && !f.options.flatten)
+  const flattenedFields = fields.filter((f) => isDeserialized(f) && f.options.flatten)
+  const fieldNames = deserializableFields.map((f) => `"${f.options.name || f.propertyName}"`)
+  const fieldMappings = deserializableFields.map((field) => generateFieldMapping(field, target))
+  if (discriminator !== undefined) {
+    // The type id was resolved by deserializeSubclass
+    fieldMappings.unshift(`case ${JSON.stringify(discriminator)}:
+            break`)
+  }
+  // Classes in a hierarchy with a discriminator dispatch to the subclass the type id names
+  const dispatch = discriminator !== undefined
+    ? [
+      `$dezer.deserializeSubclass(deserializer, ${className}, ${JSON.stringify(discriminator)}, (deserializer) => `,
+      ")",
+    ]
+    : ["", ""]
+  const flattenedAssignments = generateFlattenedAssignments(className, flattenedFields, fieldNames, target, options)
+  const restKeys = flattenedFields.length > 0 ? "\n        const rest: Record<string, unknown> = {}" : ""
+  const missingFieldChecks = generateMissingFieldChecks(className, fields, target)
+  const presentKeys = missingFieldChecks.length > 0 ? "\n        const present = new Set<unknown>()" : ""
+  const trackKey = missingFieldChecks.length > 0 ? "\n          present.add(key)" : ""
+  const typeArguments = typeParameters.length > 0 ? `\n    const typeArguments = $dezer.getTypeArguments(this)` : ""
+  const instanceType = typeParameters.length > 0 ? `InstanceType<typeof ${className}>` : className
 
   return `Object.defineProperty(${className}.prototype, $dezer.DESERIALIZE, {
-  value: function(deserializer: Deserializer) {
-    return deserializer.deserializeStruct("${className}", [${fieldNames.join(", ")}], {
+  value: function(deserializer: Deserializer) {${typeArguments}
+    return ${dispatch[0]}deserializer.deserializeStruct("${className}", [${fieldNames.join(", ")}], {
       expecting() {
         return "struct ${className}"
       },
       
       visitMap(map: MapAccess) {
-        const instance = Object.create(${className}.prototype) as ${className}
+        ${
+    generateInstanceDeclaration(className, instanceType, options, hasPrivateState, hasPrivateFields)
+  }${presentKeys}${restKeys}
         let entry
         while ((entry = map.nextEntry()) !== undefined) {
-          const [key, value] = entry
-          switch (key) {
-${fieldMappings.map((fm) => `            ${fm}`).join("\n")}
+          const [key, value] = entry${trackKey}
+          try {
+            switch (key) {
+${fieldMappings.map((fm) => `              ${indentMapping(fm)}`).join("\n")}${
+    flattenedFields.length > 0
+      ? `\n              default:
+                rest[String(key)] = value`
+      : options.denyUnknownFields
+      ? `\n              ${indentMapping(generateUnknownFieldCase(className, fieldNames))}`
+      : ""
+  }
+            }
+          } catch (error) {
+            $dezer.recordIssue(error, String(key))
           }
         }
-        return instance
+${flattenedAssignments.map((assignment) => `        ${assignment}\n`).join("")}${
+    missingFieldChecks.map((check) => `        ${check}\n`).join("")
+  }        return ${
+    withDeserializeHooks(
+      generateInstanceConstruction(className, options, constructorParameters, hasPrivateFields),
+      className,
+      hooks,
+    )
+  }
       },
       
       visitNull() {
@@ -109,6 +592,10 @@ ${fieldMappings.map((fm) => `            ${fm}`).join("\n")}
       visitNumber() {
         throw new Error("Expected struct ${className}, found number")
       },
+
+      visitBigInt() {
+        throw new Error("Expected struct ${className}, found bigint")
+      },
       
       visitString() {
         throw new Error("Expected struct ${className}, found string")
@@ -118,6 +605,10 @@ ${fieldMappings.map((fm) => `            ${fm}`).join("\n")}
         throw new Error("Expected struct ${className}, found bytes")
       },
       
+      visitDate() {
+        throw new Error("Expected struct ${className}, found date")
+      },
+      
       visitSeq() {
         throw new Error("Expected struct ${className}, found sequence")
       },
@@ -125,7 +616,7 @@ ${fieldMappings.map((fm) => `            ${fm}`).join("\n")}
       visitEnum() {
         throw new Error("Expected struct ${className}, found enum")
       }
-    })
+    })${dispatch[1]}
   },
   enumerable: false,
   configurable: false,
@@ -133,76 +624,525 @@ ${fieldMappings.map((fm) => `            ${fm}`).join("\n")}
 })`
 }
 
-function generateFieldMapping(field: ParsedField): string {
+/**
+ * Indent the continuation lines of a field mapping for the `try` block around the `switch`,
+ * which records validation errors when issues are collected
+ */
+function indentMapping(mapping: string): string {
+  return mapping.replaceAll("\n", "\n    ")
+}
+
+/**
+ * Generate the name, variants and representation arguments shared by the union helpers
+ */
+function generateUnionArguments(type: Extract<ParsedType, { kind: "union" }>): string {
+  const variants = type.variants.map((v) => `{ name: ${JSON.stringify(v.name)}, type: ${v.className} }`)
+  const representation = Object.entries(type.representation).map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+  const options = representation.length > 0 ? `{ ${representation.join(", ")} }` : "{}"
+  return `${JSON.stringify(type.name)}, [${variants.join(", ")}], ${options}`
+}
+
+/**
+ * Generate the statements run once the map is drained: applying defaults for absent keys
+ * (or always, for fields skipped during deserialization) and rejecting missing required fields
+ */
+function generateMissingFieldChecks(
+  className: string,
+  fields: ParsedField[],
+  target: (field: ParsedField) => string,
+): string[] {
+  const checks: string[] = []
+
+  for (const field of fields) {
+    if (field.isIgnored || field.options.skip || field.options.flatten) {
+      continue
+    }
+    if (field.options.skipDeserializing) {
+      if (field.defaultValue !== undefined) {
+        checks.push(`${target(field)} = ${field.defaultValue}`)
+      }
+    } else if (field.defaultValue !== undefined) {
+      checks.push(`if (${generateMissingCondition(field)}) {
+          ${target(field)} = ${field.defaultValue}
+        }`)
+    } else if (field.options.required) {
+      const serializedName = field.options.name || field.propertyName
+      checks.push(`if (${generateMissingCondition(field)}) {
+          $dezer.rejectMissingField("${serializedName}", "${className}")
+        }`)
+    }
+  }
+
+  return checks
+}
+
+/**
+ * Generate the condition for a field's key and all of its aliases being absent
+ */
+function generateMissingCondition(field: ParsedField): string {
+  const keys = [field.options.name || field.propertyName, ...(field.options.aliases ?? [])]
+  return keys.map((key) => `!present.has("${key}")`).join(" && ")
+}
+
+/**
+ * Generate the statements deserializing flattened fields from the keys no other field
+ * matched. Flattened structs pick out their own keys first, and a flattened record or map
+ * collects whatever is left.
+ */
+function generateFlattenedAssignments(
+  className: string,
+  fields: ParsedField[],
+  fieldNames: string[],
+  target: (field: ParsedField) => string,
+  options: SerializableOptions,
+): string[] {
+  if (fields.length === 0) {
+    return []
+  }
+
+  const isCatchAll = (field: ParsedField) => ["record", "map"].includes(getFieldType(field).kind)
+  const catchAll = fields.find(isCatchAll)
+  // Without a catch-all, keys left over once the flattened structs took theirs are unknown
+  const denyUnknown = !catchAll && options.denyUnknownFields
+  const assignments = denyUnknown ? [`const knownKeys = [${fieldNames.join(", ")}]`] : []
+
+  for (const field of fields.filter((f) => !isCatchAll(f))) {
+    const type = getFieldType(field)
+    const path = generatePathLiteral(field.propertyName)
+    const ctor = type.kind === "reference" ? generateConstructorExpression(type) : "Object"
+    const knownKeys = denyUnknown ? ", knownKeys" : ""
+    assignments.push(
+      `${target(field)} = $dezer.deserializeFlattened(rest, ${ctor}, deserializer, ${path}${knownKeys})`,
+    )
+  }
+
+  if (catchAll) {
+    assignments.push(
+      `${target(catchAll)} = ${generateValueDeserialization("rest", getFieldType(catchAll), catchAll.propertyName)}`,
+    )
+  } else if (denyUnknown) {
+    assignments.push(`for (const key in rest) {
+          $dezer.rejectUnknownField(key, "${className}", knownKeys)
+        }`)
+  }
+
+  return assignments
+}
+
+function generateUnknownFieldCase(className: string, fieldNames: string[]): string {
+  return `default:
+            $dezer.rejectUnknownField(key, "${className}", [${fieldNames.join(", ")}])`
+}
+
+/**
+ * Generate the expression reading a field of `this`. `#private` fields are read through
+ * the accessors `@Field` recorded for them.
+ */
+function generateFieldAccess(className: string, field: ParsedField): string {
+  return field.isPrivate
+    ? `$dezer.getPrivateField(this, ${className}, "#${field.propertyName}")`
+    : `this.${field.propertyName}`
+}
+
+/**
+ * Get where a deserialized field value is stored: directly on the instance, or in the
+ * records the instance is constructed from once the map is drained. Factories receive
+ * `#private` fields with the others, as only the class itself can write them.
+ */
+function getFieldTarget(
+  options: SerializableOptions,
+  constructorParameters: string[],
+): (field: ParsedField) => string {
+  switch (options.construct) {
+    case "constructor":
+      return (field) =>
+        field.isPrivate
+          ? `privateFields.${field.propertyName}`
+          : constructorParameters.includes(field.propertyName)
+          ? `parameters.${field.propertyName}`
+          : `fields.${field.propertyName}`
+    case "factory":
+      return (field) => `fields.${field.propertyName}`
+    default:
+      return (field) => field.isPrivate ? `privateFields.${field.propertyName}` : `instance.${field.propertyName}`
+  }
+}
+
+/**
+ * Generate the declarations deserialized fields are collected in. `#private` members only
+ * exist on instances the constructor created, so classes declaring them are constructed
+ * without arguments instead of created from their prototype.
+ */
+function generateInstanceDeclaration(
+  className: string,
+  instanceType: string,
+  options: SerializableOptions,
+  hasPrivateState: boolean,
+  hasPrivateFields: boolean,
+  indent = "        ",
+): string {
+  const privateFields = hasPrivateFields ? `\n${indent}const privateFields: Record<string, unknown> = {}` : ""
+  switch (options.construct) {
+    case "constructor":
+      return `const parameters: Record<string, unknown> = {}\n${indent}const fields: Record<string, unknown> = {}${privateFields}`
+    case "factory":
+      return `const fields: Record<string, unknown> = {}`
+    default:
+      return hasPrivateState
+        ? `const instance = new ${className}() as $dezer.Mutable<${instanceType}>${privateFields}`
+        : `const instance = Object.create(${className}.prototype) as $dezer.Mutable<${instanceType}>`
+  }
+}
+
+/**
+ * Generate the expression producing the deserialized instance. Constructed instances get
+ * the fields that aren't constructor parameters assigned afterwards, so initializers
+ * supply the values of absent keys.
+ */
+function generateInstanceConstruction(
+  className: string,
+  options: SerializableOptions,
+  constructorParameters: string[],
+  hasPrivateFields: boolean,
+): string {
+  const withPrivateFields = (construction: string) =>
+    hasPrivateFields ? `$dezer.setPrivateFields(${construction}, ${className}, privateFields)` : construction
+
+  switch (options.construct) {
+    case "constructor": {
+      const args = constructorParameters
+        .map((name, i) => `parameters.${name} as ConstructorParameters<typeof ${className}>[${i}]`)
+        .join(", ")
+      return withPrivateFields(`Object.assign(new ${className}(${args}), fields)`)
+    }
+    case "factory":
+      return `${className}.fromFields(fields as Parameters<typeof ${className}.fromFields>[0])`
+    default:
+      return withPrivateFields("instance")
+  }
+}
+
+function generateFieldMapping(field: ParsedField, target: (field: ParsedField) => string): string {
   const { propertyName, options, isOptional } = field
   const serializedName = options.name || propertyName
   const fieldPath = propertyName
+  const caseLabels = [serializedName, ...(options.aliases ?? [])].map((key) => `case "${key}":`).join(" ")
 
-  if (options.transform?.deserialize) {
-    return `case "${serializedName}":
-            instance.${propertyName} = (${options.transform.deserialize.toString()})(value)
+  if (field.deserializeWith) {
+    return `${caseLabels}
+            ${target(field)} = ${withConstraints(`(${field.deserializeWith.expression})(value)`, field)}
             break`
   }
 
-  const valueDeserialization = generateValueDeserialization("value", field.type, fieldPath)
+  const valueDeserialization = withConstraints(
+    generateValueDeserialization("value", getFieldType(field), fieldPath),
+    field,
+  )
 
   if (isOptional) {
-    return `case "${serializedName}":
+    return `${caseLabels}
             if (value !== undefined) {
-              instance.${propertyName} = ${valueDeserialization}
+              ${target(field)} = ${valueDeserialization}
             }
             break`
   } else {
-    return `case "${serializedName}":
-            instance.${propertyName} = ${valueDeserialization}
+    return `${caseLabels}
+            ${target(field)} = ${valueDeserialization}
             break`
   }
 }
 
-function generateValueDeserialization(valueExpression: string, type: string, fieldPath: string): string {
-  switch (type) {
-    case "Date":
-      return `$dezer.validateDate(${valueExpression}, "${fieldPath}")`
-    case "string":
-      return `$dezer.validateString(${valueExpression}, "${fieldPath}")`
-    case "number":
-      return `$dezer.validateNumber(${valueExpression}, "${fieldPath}")`
-    case "boolean":
-      return `$dezer.validateBoolean(${valueExpression}, "${fieldPath}")`
-    default:
-      if (type.endsWith("[]")) {
-        const elementType = type.slice(0, -2)
-        switch (elementType) {
+/**
+ * Wrap a field's deserialization in the check of its constraint options, if any
+ */
+function withConstraints(deserialization: string, field: ParsedField): string {
+  if (!field.constraints) {
+    return deserialization
+  }
+  return `$dezer.validateConstraints(${deserialization}, ${
+    generatePathLiteral(field.propertyName)
+  }, ${field.constraints})`
+}
+
+function generateValueDeserialization(valueExpression: string, type: ParsedType, fieldPath: string, depth = 0): string {
+  const path = generatePathLiteral(fieldPath)
+
+  switch (type.kind) {
+    case "enum":
+      return `$dezer.deserializeEnumValue(${valueExpression}, ${
+        generateEnumArguments(type.enum, "deserialize")
+      }, deserializer, ${path})`
+    case "union":
+      return `$dezer.deserializeUnionValue(${valueExpression}, ${generateUnionArguments(type)}, deserializer, ${path})`
+    case "array": {
+      const element = type.element
+      if (element.kind === "primitive") {
+        switch (element.name) {
           case "string":
-            return `$dezer.validateStringArray(${valueExpression}, "${fieldPath}")`
+            return `$dezer.validateStringArray(${valueExpression}, ${path})`
           case "number":
-            return `$dezer.validateNumberArray(${valueExpression}, "${fieldPath}")`
+            return `$dezer.validateNumberArray(${valueExpression}, ${path})`
           case "boolean":
-            return `$dezer.validateBooleanArray(${valueExpression}, "${fieldPath}")`
-          default:
-            // For arrays of user-defined objects, deserialize each element
-            if (isUserDefinedType(elementType)) {
-              return `$dezer.deserializeObjectArray(${valueExpression}, ${elementType}, deserializer, "${fieldPath}")`
-            }
-            // For other complex object arrays, just validate array structure
-            return `$dezer.validateObjectArray(${valueExpression}, "${fieldPath}") as ${type}`
+            return `$dezer.validateBooleanArray(${valueExpression}, ${path})`
+        }
+      }
+      // For arrays of user-defined objects, deserialize each element
+      if (element.kind === "reference" && isUserDefinedType(element.name)) {
+        return `$dezer.deserializeObjectArray(${valueExpression}, ${
+          generateConstructorExpression(element)
+        }, deserializer, ${path})`
+      }
+      // For any other elements, including nested arrays and nullable elements, validate each element at its own path
+      const item = depth === 0 ? "item" : `item${depth}`
+      const index = depth === 0 ? "i" : `i${depth}`
+      const elementDeserialization = generateValueDeserialization(
+        item,
+        element,
+        `${fieldPath}[\${${index}}]`,
+        depth + 1,
+      )
+      if (elementDeserialization === item) {
+        return `$dezer.validateArray(${valueExpression}, ${path}) as ${formatType(type)}`
+      }
+      return `$dezer.validateArray(${valueExpression}, ${path}).map((${item}, ${index}) => ${elementDeserialization})`
+    }
+    case "tuple": {
+      const tuple = depth === 0 ? "tuple" : `tuple${depth}`
+      const item = depth === 0 ? "item" : `item${depth}`
+      const index = depth === 0 ? "i" : `i${depth}`
+      const required = type.elements.filter((element) => !element.optional && !element.rest).length
+      const maxLength = type.elements.some((element) => element.rest) ? "undefined" : String(type.elements.length)
+      const elementDeserializations = type.elements.map((element, position) => {
+        if (element.rest) {
+          const restDeserialization = generateValueDeserialization(
+            item,
+            element.type,
+            `${fieldPath}[\${${index} + ${position}}]`,
+            depth + 1,
+          )
+          return `...${tuple}.slice(${position}).map((${item}, ${index}) => ${restDeserialization})`
         }
+        const deserialization = generateValueDeserialization(
+          `${tuple}[${position}]`,
+          element.type,
+          `${fieldPath}[${position}]`,
+          depth + 1,
+        )
+        return element.optional ? `...(${tuple}.length > ${position} ? [${deserialization}] : [])` : deserialization
+      })
+      return `((${tuple}) => [
+              ${elementDeserializations.join(",\n              ")},
+            ])($dezer.validateTuple(${valueExpression}, ${required}, ${maxLength}, ${path})) as ${formatType(type)}`
+    }
+    case "set":
+      return `new Set(${
+        generateValueDeserialization(valueExpression, { kind: "array", element: type.element }, fieldPath, depth)
+      })`
+    case "map":
+    case "record": {
+      const key = depth === 0 ? "key" : `key${depth}`
+      const entry = depth === 0 ? "entry" : `entry${depth}`
+      const entryPath = `${fieldPath}.\${${key}}`
+      const keyDeserialization = generateKeyDeserialization(key, type.key, entryPath)
+      const valueDeserialization = generateValueDeserialization(entry, type.value, entryPath, depth + 1)
+      const entries = `Object.entries($dezer.validateObject(${valueExpression}, ${path}))
+              .map(([${key}, ${entry}]) => [${keyDeserialization}, ${valueDeserialization}] as const)`
+      return type.kind === "map" ? `new Map(${entries})` : `Object.fromEntries(${entries})`
+    }
+    case "date":
+      return `$dezer.deserializeDateValue(${valueExpression}, deserializer, ${path}${generateDateFormatArgument(type)})`
+    case "builtin":
+      if (type.name === "Uint8Array") {
+        return `$dezer.validateBytes(${valueExpression}, deserializer, ${path})`
+      }
+      if (isTypedArray(type.name)) {
+        return `$dezer.validateTypedArray(${valueExpression}, ${type.name}, ${path})`
       }
+      if (isTemporalType(type.name)) {
+        return `$dezer.validateTemporal(${valueExpression}, ${type.name}, ${path})`
+      }
+      return type.name === "URL"
+        ? `$dezer.validateURL(${valueExpression}, ${path})`
+        : `$dezer.validateRegExp(${valueExpression}, ${path})`
+    case "reference":
       // For complex objects, check if they might be user-defined classes that need deserialization
-      if (isUserDefinedType(type)) {
-        return `$dezer.deserializeNestedObject(${valueExpression}, ${type}, deserializer, "${fieldPath}")`
+      if (isUserDefinedType(type.name)) {
+        return `$dezer.deserializeNestedObject(${valueExpression}, ${
+          generateConstructorExpression(type)
+        }, deserializer, ${path})`
+      }
+      // For other complex objects, validate it's an object
+      return `$dezer.validateObject(${valueExpression}, ${path}) as ${type.name}`
+    case "nullable": {
+      const some = depth === 0 ? "some" : `some${depth}`
+      return `$dezer.deserializeNullable(${valueExpression}, deserializer, (${some}) => ${
+        generateValueDeserialization(some, type.inner, fieldPath, depth + 1)
+      })`
+    }
+    case "typeParameter":
+      return `$dezer.deserializeTypeArgument(${valueExpression}, typeArguments[${type.index}], deserializer, ${path})`
+    case "primitive":
+      switch (type.name) {
+        case "string":
+          return `$dezer.validateString(${valueExpression}, ${path})`
+        case "number":
+          return `$dezer.validateNumber(${valueExpression}, ${path})`
+        case "bigint":
+          return `$dezer.deserializeBigIntValue(${valueExpression}, deserializer, ${path})`
+        case "boolean":
+          return `$dezer.validateBoolean(${valueExpression}, ${path})`
+        case "any":
+        case "unknown":
+          return valueExpression
       }
       // For other complex objects, validate it's an object
-      return `$dezer.validateObject(${valueExpression}, "${fieldPath}") as ${type}`
+      return `$dezer.validateObject(${valueExpression}, ${path}) as ${type.name}`
+  }
+}
+
+/**
+ * Generate the deserialization of a map key, which text formats always provide as a string
+ */
+function generateKeyDeserialization(keyExpression: string, type: ParsedType, fieldPath: string): string {
+  const path = generatePathLiteral(fieldPath)
+  if (type.kind === "enum") {
+    return `$dezer.deserializeEnumKey(${keyExpression}, ${generateEnumArguments(type.enum, "deserialize")}, ${path})`
+  }
+  if (type.kind === "primitive" && type.name === "number") {
+    return `$dezer.validateNumberKey(${keyExpression}, ${path})`
+  }
+  return keyExpression
+}
+
+/**
+ * Generate the constructor to deserialize a class reference with, binding
+ * the type arguments of generic classes like `Page<User>`
+ */
+function generateConstructorExpression(type: Extract<ParsedType, { kind: "reference" }>): string {
+  if (!type.typeArguments) {
+    return type.name
+  }
+  return `$dezer.withTypeArguments(${type.name}, [${type.typeArguments.map(generateTypeArgument).join(", ")}])`
+}
+
+/**
+ * Generate the runtime type argument for a type, or undefined when it has no constructor
+ */
+function generateTypeArgument(type: ParsedType): string {
+  switch (type.kind) {
+    case "primitive":
+      switch (type.name) {
+        case "string":
+          return "String"
+        case "number":
+          return "Number"
+        case "boolean":
+          return "Boolean"
+      }
+      return "undefined"
+    case "date":
+      return "Date"
+    case "reference":
+      return isUserDefinedType(type.name) ? generateConstructorExpression(type) : "undefined"
+    case "typeParameter":
+      return `typeArguments[${type.index}]`
+    default:
+      return "undefined"
   }
 }
 
+/**
+ * Generate the trailing date format argument of the date helpers, if the field chose one
+ */
+function generateDateFormatArgument(type: Extract<ParsedType, { kind: "date" }>): string {
+  return type.format ? `, "${type.format}"` : ""
+}
+
+/**
+ * Quote a field path for generated code, using a template literal when it embeds array indices
+ */
+function generatePathLiteral(fieldPath: string): string {
+  return fieldPath.includes("${") ? `\`${fieldPath}\`` : `"${fieldPath}"`
+}
+
+/**
+ * Get the structured type of a field, falling back to its type string
+ * for fields that were not produced by the parser
+ */
+function getFieldType(field: ParsedField): ParsedType {
+  return field.typeInfo ?? parseTypeString(field.type)
+}
+
+function parseTypeString(type: string): ParsedType {
+  if (type.endsWith(" | null")) {
+    return { kind: "nullable", inner: parseTypeString(type.slice(0, -" | null".length)) }
+  }
+  if (type.endsWith("[]")) {
+    return { kind: "array", element: parseTypeString(type.slice(0, -2)) }
+  }
+  if (type === "Date") {
+    return { kind: "date" }
+  }
+  if (isBuiltinType(type)) {
+    return { kind: "builtin", name: type }
+  }
+  if (isUserDefinedType(type)) {
+    return { kind: "reference", name: type }
+  }
+  return { kind: "primitive", name: type }
+}
+
+function formatType(type: ParsedType): string {
+  switch (type.kind) {
+    case "array": {
+      const element = formatType(type.element)
+      return element.includes(" | ") ? `(${element})[]` : `${element}[]`
+    }
+    case "tuple":
+      return `[${
+        type.elements.map((element) => {
+          const elementType = element.type.kind === "nullable"
+            ? `(${formatType(element.type)})`
+            : formatType(element.type)
+          return element.rest ? `...${elementType}[]` : `${elementType}${element.optional ? "?" : ""}`
+        }).join(", ")
+      }]`
+    case "nullable":
+      return `${formatType(type.inner)} | null`
+    case "set":
+      return `Set<${formatType(type.element)}>`
+    case "map":
+      return `Map<${formatType(type.key)}, ${formatType(type.value)}>`
+    case "record":
+      return `Record<${formatType(type.key)}, ${formatType(type.value)}>`
+    case "enum":
+      return type.enum.name
+    case "union":
+      return type.name
+    case "date":
+      return "Date"
+    case "reference":
+      return type.typeArguments ? `${type.name}<${type.typeArguments.map(formatType).join(", ")}>` : type.name
+    default:
+      return type.name
+  }
+}
+
+function isSerialized(field: ParsedField): boolean {
+  return !field.isIgnored && !field.options.skip && !field.options.skipSerializing
+}
+
+function isDeserialized(field: ParsedField): boolean {
+  return !field.isIgnored && !field.options.skip && !field.options.skipDeserializing
+}
+
 function isUserDefinedType(type: string): boolean {
   // Check if this is a user-defined class (starts with uppercase and isn't a built-in type)
   const builtInTypes = new Set(["string", "number", "boolean", "Date", "any", "unknown", "void", "undefined", "null"])
   return type.length > 0 &&
     type[0] === type[0].toUpperCase() &&
-    !builtInTypes.has(type)
+    !builtInTypes.has(type) &&
+    !isBuiltinType(type)
 }
 
 export function generateAugmentationFile(parsedClasses: ParsedClass[], sourceFilePath: string): string {
@@ -227,10 +1167,85 @@ ${dezerImports}
 }
 
 function generateImports(parsedClasses: ParsedClass[], sourceFilePath: string): string {
-  const classNames = parsedClasses.map((cls) => cls.name)
   const relativePath = "./" + sourceFilePath.split("/").pop()
 
-  return `import { ${classNames.join(", ")} } from "${relativePath}"
+  // Classes referenced by fields, keyed by module and then by local name
+  const imports = new Map<string, Map<string, string>>([
+    [relativePath, new Map(parsedClasses.filter((cls) => !cls.remote).map((cls) => [cls.name, cls.name]))],
+  ])
+  for (const parsedClass of parsedClasses) {
+    addExpressionImport(imports, parsedClass.remote)
+    for (const field of parsedClass.fields.filter((f) => isSerialized(f) || isDeserialized(f))) {
+      collectImports(getFieldType(field), imports)
+      if (isSerialized(field)) {
+        addExpressionImport(imports, typeof field.skipIf === "object" ? field.skipIf : undefined)
+        addExpressionImport(imports, field.serializeWith)
+      }
+      if (isDeserialized(field)) {
+        addExpressionImport(imports, field.deserializeWith)
+      }
+    }
+  }
+
+  const importLines = [...imports].filter(([, names]) => names.size > 0).map(([module, names]) => {
+    const specifiers = [...names].map(([localName, name]) => localName === name ? name : `${name} as ${localName}`)
+    return `import { ${specifiers.join(", ")} } from "${module}"`
+  })
+
+  return `${importLines.join("\n")}
 import * as $dezer from "@dezer/core"
 import type { Serialize, Deserialize, Serializer, Deserializer, MapAccess } from "@dezer/core"`
 }
+
+/**
+ * Add the import of the identifier a function expression from a decorator starts with
+ */
+function addExpressionImport(imports: Map<string, Map<string, string>>, parsed: ParsedExpression | undefined): void {
+  if (parsed?.importFrom) {
+    addImport(imports, parsed.expression.split(".")[0], parsed.importFrom)
+  }
+}
+
+function addImport(imports: Map<string, Map<string, string>>, localName: string, importFrom: ParsedImport): void {
+  const names = imports.get(importFrom.module) ?? new Map<string, string>()
+  names.set(localName, importFrom.name)
+  imports.set(importFrom.module, names)
+}
+
+function collectImports(type: ParsedType, imports: Map<string, Map<string, string>>): void {
+  switch (type.kind) {
+    case "reference":
+      if (type.importFrom) {
+        addImport(imports, type.name, type.importFrom)
+      }
+      type.typeArguments?.forEach((arg) => collectImports(arg, imports))
+      break
+    case "enum":
+      if (type.importFrom) {
+        addImport(imports, type.enum.name, type.importFrom)
+      }
+      break
+    case "union":
+      for (const variant of type.variants) {
+        if (variant.importFrom) {
+          addImport(imports, variant.className, variant.importFrom)
+        }
+      }
+      break
+    case "array":
+    case "set":
+      collectImports(type.element, imports)
+      break
+    case "tuple":
+      type.elements.forEach((element) => collectImports(element.type, imports))
+      break
+    case "nullable":
+      collectImports(type.inner, imports)
+      break
+    case "map":
+    case "record":
+      collectImports(type.key, imports)
+      collectImports(type.value, imports)
+      break
+  }
+}
@@ -1,7 +1,38 @@
 import * as ts from "typescript"
-import type { FieldOptions, ParsedClass, ParsedField, SerializableOptions } from "../types.ts"
+import type {
+  DateFormat,
+  EnumOptions,
+  EnumVariant,
+  FieldOptions,
+  ParsedClass,
+  ParsedEnum,
+  ParsedExpression,
+  ParsedField,
+  ParsedHooks,
+  ParsedImport,
+  ParsedSkipIf,
+  ParsedTupleElement,
+  ParsedType,
+  SerializableOptions,
+  UnionRepresentation,
+} from "../types.ts"
+import { isBuiltinType } from "./builtins.ts"
+import { relativeSpecifier, resolveSpecifier } from "./paths.ts"
 
-export function parseSourceFile(filePath: string, sourceCode: string): ParsedClass[] {
+/**
+ * Reads the source of a file imported by the file being parsed, or returns null if it can't be read
+ */
+export type SourceReader = (filePath: string) => string | null
+
+/**
+ * Parse the `@Serializable` classes declared in a source file
+ *
+ * @param filePath Path of the source file
+ * @param sourceCode Contents of the source file
+ * @param readFile Used to read relatively imported modules when resolving inherited fields.
+ *   Without it only base classes declared in the same file are resolved.
+ */
+export function parseSourceFile(filePath: string, sourceCode: string, readFile?: SourceReader): ParsedClass[] {
   const sourceFile = ts.createSourceFile(
     filePath,
     sourceCode,
@@ -9,11 +40,12 @@ export function parseSourceFile(filePath: string, sourceCode: string): ParsedCla
     true,
   )
 
+  const context = collectDeclarations(sourceFile, filePath, filePath, readFile)
   const classes: ParsedClass[] = []
 
   function visit(node: ts.Node): void {
     if (ts.isClassDeclaration(node) && node.name) {
-      const parsedClass = parseClass(node, filePath)
+      const parsedClass = parseClass(node, filePath, context)
       if (parsedClass) {
         classes.push(parsedClass)
       }
@@ -25,9 +57,162 @@ export function parseSourceFile(filePath: string, sourceCode: string): ParsedCla
   return classes
 }
 
-function parseClass(classNode: ts.ClassDeclaration, filePath: string): ParsedClass | null {
+/**
+ * Declarations in the file being parsed that field types can refer to
+ */
+interface TypeContext {
+  enums: Map<string, ParsedEnum>
+  classes: Map<string, SerializableOptions>
+  aliases: Map<string, ts.TypeNode>
+  /** All classes declared in the file, with or without `@Serializable` */
+  classNodes: Map<string, ts.ClassDeclaration>
+  /** Named imports of the file, keyed by local name, with the specifier as written */
+  imports: Map<string, ParsedImport>
+  /** Type parameters of the class whose fields are being parsed */
+  typeParameters: string[]
+  /** The file the declarations come from */
+  filePath: string
+  /** The file code is being generated for, which import specifiers are made relative to */
+  rootFilePath: string
+  readFile?: SourceReader
+}
+
+/**
+ * Collect the enums, literal union type aliases, other type aliases, classes and named
+ * imports of a file, keyed by name, together with any options given through
+ * `SerializableEnum(...)` marker calls
+ */
+function collectDeclarations(
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  rootFilePath: string,
+  readFile?: SourceReader,
+): TypeContext {
+  const enums = new Map<string, ParsedEnum>()
+  const classes = new Map<string, SerializableOptions>()
+  const aliases = new Map<string, ts.TypeNode>()
+  const classNodes = new Map<string, ts.ClassDeclaration>()
+  const imports = new Map<string, ParsedImport>()
+  const enumOptions = new Map<string, EnumOptions>()
+
+  function visit(node: ts.Node): void {
+    if (
+      ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) &&
+      node.importClause?.namedBindings && ts.isNamedImports(node.importClause.namedBindings)
+    ) {
+      for (const element of node.importClause.namedBindings.elements) {
+        imports.set(element.name.text, {
+          name: element.propertyName?.text ?? element.name.text,
+          module: node.moduleSpecifier.text,
+        })
+      }
+    }
+
+    if (ts.isEnumDeclaration(node)) {
+      enums.set(node.name.text, parseEnum(node))
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      const variants = getLiteralVariants(node.type)
+      if (variants) {
+        enums.set(node.name.text, { name: node.name.text, variants, options: {} })
+      } else {
+        aliases.set(node.name.text, node.type)
+      }
+    } else if (ts.isClassDeclaration(node) && node.name) {
+      classNodes.set(node.name.text, node)
+      const serializableDecorator = findSerializableDecorator(node)
+      if (serializableDecorator) {
+        classes.set(node.name.text, parseSerializableOptions(serializableDecorator))
+      }
+    } else if (
+      ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === "SerializableEnum"
+    ) {
+      const [target, options] = node.arguments
+      if (target && ts.isIdentifier(target)) {
+        enumOptions.set(
+          target.text,
+          options && ts.isObjectLiteralExpression(options) ? parseObjectLiteral(options) as EnumOptions : {},
+        )
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+
+  for (const [name, options] of enumOptions) {
+    const parsedEnum = enums.get(name)
+    if (parsedEnum) {
+      parsedEnum.options = options
+    }
+  }
+
+  return { enums, classes, aliases, classNodes, imports, typeParameters: [], filePath, rootFilePath, readFile }
+}
+
+function parseEnum(enumNode: ts.EnumDeclaration): ParsedEnum {
+  const enumName = enumNode.name.text
+  const variants: EnumVariant[] = []
+  let nextValue = 0
+
+  for (const member of enumNode.members) {
+    const name = ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)
+      ? member.name.text
+      : member.name.getText()
+
+    let value: unknown = nextValue
+    if (member.initializer) {
+      value = getLiteralValue(member.initializer)
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+      throw new Error(`Cannot determine a constant value for enum member ${enumName}.${name}`)
+    }
+    if (typeof value === "number") {
+      nextValue = value + 1
+    }
+
+    variants.push({ name, value })
+  }
+
+  return { name: enumName, variants, options: {} }
+}
+
+/**
+ * Get the variants of a string/number literal type or a union of them,
+ * ignoring `undefined` and `null` members. Returns null for any other type.
+ */
+function getLiteralVariants(typeNode: ts.TypeNode): EnumVariant[] | null {
+  const members = ts.isUnionTypeNode(typeNode) ? typeNode.types : [typeNode]
+  const variants: EnumVariant[] = []
+
+  for (const member of members) {
+    if (member.kind === ts.SyntaxKind.UndefinedKeyword) {
+      continue
+    }
+    if (!ts.isLiteralTypeNode(member)) {
+      return null
+    }
+    if (member.literal.kind === ts.SyntaxKind.NullKeyword) {
+      continue
+    }
+
+    const value = getLiteralValue(member.literal as ts.Expression)
+    if (typeof value !== "string" && typeof value !== "number") {
+      return null
+    }
+    variants.push({ name: String(value), value })
+  }
+
+  return variants.length > 0 ? variants : null
+}
+
+function parseClass(
+  classNode: ts.ClassDeclaration,
+  filePath: string,
+  context: TypeContext,
+): ParsedClass | null {
   const serializableDecorator = findSerializableDecorator(classNode)
-  if (!serializableDecorator) {
+  const remoteDecorator = findRemoteDecorator(classNode)
+  if (!serializableDecorator && !remoteDecorator) {
     return null
   }
 
@@ -36,14 +221,293 @@ function parseClass(classNode: ts.ClassDeclaration, filePath: string): ParsedCla
     return null
   }
 
-  const options = parseSerializableOptions(serializableDecorator)
-  const fields = parseClassFields(classNode)
+  // Remote mirrors take their options after the foreign class: `@SerializableRemote(Money, { ... })`
+  const options = remoteDecorator
+    ? parseSerializableOptions(remoteDecorator, 1)
+    : parseSerializableOptions(serializableDecorator!)
+  const remote = remoteDecorator ? parseRemoteClass(remoteDecorator, context) : undefined
+  const typeParameters = (classNode.typeParameters ?? []).map((parameter) => ({
+    name: parameter.name.text,
+    declaration: parameter.getText(),
+  }))
+  const classContext = { ...context, typeParameters: typeParameters.map((parameter) => parameter.name) }
+  const fields = mergeFields(
+    parseInheritedFields(classNode, classContext, new Set([classNode])),
+    parseClassFields(classNode, classContext),
+  )
+
+  const constructorParameters = options.construct === "constructor"
+    ? parseConstructorParameters(classNode, context, new Set([classNode]))
+    : undefined
+  const hasPrivateState = !remote && declaresPrivateMembers(classNode, context, new Set([classNode]))
+  const discriminator = remote ? undefined : findDiscriminator(classNode, context, new Set([classNode]))
+  const isAbstract = !!classNode.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.AbstractKeyword)
+  // Methods of a mirror class don't exist on the foreign instances
+  const hooks = remote ? undefined : parseHooks(classNode, context, new Set([classNode]))
 
   return {
     name: className,
     filePath,
     options,
     fields,
+    ...(typeParameters.length > 0 ? { typeParameters } : {}),
+    ...(constructorParameters ? { constructorParameters } : {}),
+    ...(hasPrivateState ? { hasPrivateState } : {}),
+    ...(hooks ? { hooks } : {}),
+    ...(discriminator !== undefined ? { discriminator } : {}),
+    ...(isAbstract ? { isAbstract } : {}),
+    ...(remote ? { remote } : {}),
+  }
+}
+
+/**
+ * Parse the fields a class inherits through its `extends` chain, substituting the type
+ * arguments given to generic base classes. Base classes are resolved in the same file or
+ * in relatively imported modules, and don't need to be `@Serializable` themselves.
+ */
+function parseInheritedFields(
+  classNode: ts.ClassDeclaration,
+  context: TypeContext,
+  seen: Set<ts.ClassDeclaration>,
+): ParsedField[] {
+  const base = getBaseClass(classNode, context, seen)
+  if (!base) {
+    return []
+  }
+
+  const baseContext = {
+    ...base.context,
+    typeParameters: (base.node.typeParameters ?? []).map((parameter) => parameter.name.text),
+  }
+  const fields = mergeFields(
+    parseInheritedFields(base.node, baseContext, seen),
+    parseClassFields(base.node, baseContext),
+  )
+
+  const typeArguments = base.typeArguments.map((arg) => getTypeInfo(arg, context))
+  return fields.map((field) =>
+    field.typeInfo ? { ...field, typeInfo: substituteTypeArguments(field.typeInfo, typeArguments) } : field
+  )
+}
+
+/**
+ * Get the class a class extends, unless it can't be resolved or was already visited on the
+ * way up the chain, which `seen` records
+ *
+ * @returns The base class declaration and its context, with the type arguments it's given
+ */
+function getBaseClass(
+  classNode: ts.ClassDeclaration,
+  context: TypeContext,
+  seen: Set<ts.ClassDeclaration>,
+): { node: ts.ClassDeclaration; context: TypeContext; typeArguments: readonly ts.TypeNode[] } | null {
+  const heritageClause = classNode.heritageClauses?.find((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+  const baseType = heritageClause?.types[0]
+  if (!baseType || !ts.isIdentifier(baseType.expression)) {
+    return null
+  }
+
+  const base = resolveBaseClass(baseType.expression.text, context)
+  if (!base || seen.has(base.node)) {
+    return null
+  }
+  seen.add(base.node)
+  return { ...base, typeArguments: baseType.typeArguments ?? [] }
+}
+
+/**
+ * Find the declaration of a base class, either in the file itself or in the relatively
+ * imported module it comes from
+ */
+function resolveBaseClass(
+  name: string,
+  context: TypeContext,
+): { node: ts.ClassDeclaration; context: TypeContext } | null {
+  const node = context.classNodes.get(name)
+  if (node) {
+    return { node, context }
+  }
+
+  const module = resolveImport(name, context)
+  const baseNode = module?.context.classNodes.get(module.name)
+  return baseNode ? { node: baseNode, context: module!.context } : null
+}
+
+/**
+ * Collect the declarations of the relatively imported module a name comes from
+ *
+ * @returns The declarations of the module and the name it exports the import under, or null
+ *   if the name isn't imported from a module that can be read
+ */
+function resolveImport(name: string, context: TypeContext): { context: TypeContext; name: string } | null {
+  const imported = context.imports.get(name)
+  if (!imported || !imported.module.startsWith(".") || !context.readFile) {
+    return null
+  }
+
+  const filePath = resolveSpecifier(context.filePath, imported.module)
+  const sourceCode = context.readFile(filePath)
+  if (sourceCode === null) {
+    return null
+  }
+
+  const sourceFile = ts.createSourceFile(filePath, sourceCode, ts.ScriptTarget.Latest, true)
+  return {
+    context: collectDeclarations(sourceFile, filePath, context.rootFilePath, context.readFile),
+    name: imported.name,
+  }
+}
+
+/**
+ * Check whether a class or one of its base classes declares `#private` members
+ */
+function declaresPrivateMembers(
+  classNode: ts.ClassDeclaration,
+  context: TypeContext,
+  seen: Set<ts.ClassDeclaration>,
+): boolean {
+  if (classNode.members.some((member) => member.name && ts.isPrivateIdentifier(member.name))) {
+    return true
+  }
+
+  const base = getBaseClass(classNode, context, seen)
+  return !!base && declaresPrivateMembers(base.node, base.context, seen)
+}
+
+/**
+ * Collect the lifecycle hook methods of a class and its base classes, base class methods
+ * first. Returns undefined when there are none.
+ */
+function parseHooks(
+  classNode: ts.ClassDeclaration,
+  context: TypeContext,
+  seen: Set<ts.ClassDeclaration>,
+): ParsedHooks | undefined {
+  const hooks: ParsedHooks = { beforeSerialize: [], afterDeserialize: [], validate: [] }
+
+  const base = getBaseClass(classNode, context, seen)
+  if (base) {
+    const inherited = parseHooks(base.node, base.context, seen)
+    if (inherited) {
+      Object.assign(hooks, inherited)
+    }
+  }
+
+  for (const member of classNode.members) {
+    if (!ts.isMethodDeclaration(member) || !ts.isIdentifier(member.name) || isStatic(member)) {
+      continue
+    }
+    const name = member.name.text
+    const add = (methods: string[]) => methods.includes(name) ? methods : [...methods, name]
+    if (findDecoratorByName(member, "BeforeSerialize")) {
+      hooks.beforeSerialize = add(hooks.beforeSerialize)
+    }
+    if (findDecoratorByName(member, "AfterDeserialize")) {
+      hooks.afterDeserialize = add(hooks.afterDeserialize)
+    }
+    if (findDecoratorByName(member, "Validate")) {
+      hooks.validate = add(hooks.validate)
+    }
+  }
+
+  return Object.values(hooks).some((methods) => methods.length > 0) ? hooks : undefined
+}
+
+/**
+ * Find the `discriminator` option of a class, or of the nearest base class declaring one
+ */
+function findDiscriminator(
+  classNode: ts.ClassDeclaration,
+  context: TypeContext,
+  seen: Set<ts.ClassDeclaration>,
+): string | undefined {
+  const decorator = findSerializableDecorator(classNode)
+  const discriminator = decorator ? parseSerializableOptions(decorator).discriminator : undefined
+  if (discriminator !== undefined) {
+    return discriminator
+  }
+
+  const base = getBaseClass(classNode, context, seen)
+  return base ? findDiscriminator(base.node, base.context, seen) : undefined
+}
+
+/**
+ * Merge a class's own fields over its inherited ones. A redeclared field replaces the
+ * inherited declaration but keeps its position, as it does on instances.
+ */
+function mergeFields(inherited: ParsedField[], own: ParsedField[]): ParsedField[] {
+  const fields = [...inherited]
+  for (const field of own) {
+    const index = fields.findIndex((f) => f.propertyName === field.propertyName)
+    if (index === -1) {
+      fields.push(field)
+    } else {
+      fields[index] = field
+    }
+  }
+  return fields
+}
+
+/**
+ * Replace the type parameters of a base class with the type arguments its subclass passes.
+ * Type parameters without an argument become `any`.
+ */
+function substituteTypeArguments(type: ParsedType, typeArguments: ParsedType[]): ParsedType {
+  switch (type.kind) {
+    case "typeParameter":
+      return typeArguments[type.index] ?? { kind: "primitive", name: "any" }
+    case "array":
+    case "set":
+      return { ...type, element: substituteTypeArguments(type.element, typeArguments) }
+    case "tuple":
+      return {
+        ...type,
+        elements: type.elements.map((element) => ({
+          ...element,
+          type: substituteTypeArguments(element.type, typeArguments),
+        })),
+      }
+    case "nullable":
+      return { ...type, inner: substituteTypeArguments(type.inner, typeArguments) }
+    case "map":
+    case "record":
+      return {
+        ...type,
+        key: substituteTypeArguments(type.key, typeArguments),
+        value: substituteTypeArguments(type.value, typeArguments),
+      }
+    case "reference":
+      if (type.typeArguments) {
+        return { ...type, typeArguments: type.typeArguments.map((arg) => substituteTypeArguments(arg, typeArguments)) }
+      }
+      return type
+    default:
+      return type
+  }
+}
+
+/**
+ * Apply a field's `dateFormat` option to every date in its type, e.g. the elements of `Date[]`
+ */
+function withDateFormat(type: ParsedType, format: DateFormat): ParsedType {
+  switch (type.kind) {
+    case "date":
+      return { ...type, format }
+    case "array":
+    case "set":
+      return { ...type, element: withDateFormat(type.element, format) }
+    case "tuple":
+      return {
+        ...type,
+        elements: type.elements.map((element) => ({ ...element, type: withDateFormat(element.type, format) })),
+      }
+    case "nullable":
+      return { ...type, inner: withDateFormat(type.inner, format) }
+    case "map":
+    case "record":
+      return { ...type, value: withDateFormat(type.value, format) }
+    default:
+      return type
   }
 }
 
@@ -65,10 +529,31 @@ function findSerializableDecorator(classNode: ts.ClassDeclaration): ts.Decorator
   return null
 }
 
-function parseSerializableOptions(decorator: ts.Decorator): SerializableOptions {
+function findRemoteDecorator(classNode: ts.ClassDeclaration): ts.Decorator | null {
+  return findDecoratorByName(classNode, "SerializableRemote")
+}
+
+/**
+ * Read the foreign class a `@SerializableRemote(ThirdPartyClass)` mirror describes
+ */
+function parseRemoteClass(decorator: ts.Decorator, context: TypeContext): ParsedExpression | undefined {
   const expression = decorator.expression
-  if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
-    const arg = expression.arguments[0]
+  if (!ts.isCallExpression(expression) || expression.arguments.length === 0) {
+    return undefined
+  }
+
+  const target = expression.arguments[0]
+  if (ts.isIdentifier(target) && !context.imports.has(target.text) && !context.classNodes.has(target.text)) {
+    // A global class such as `URL`, which needs no import
+    return { expression: target.text }
+  }
+  return parseExpression(target, context)
+}
+
+function parseSerializableOptions(decorator: ts.Decorator, argumentIndex = 0): SerializableOptions {
+  const expression = decorator.expression
+  if (ts.isCallExpression(expression) && expression.arguments.length > argumentIndex) {
+    const arg = expression.arguments[argumentIndex]
     if (ts.isObjectLiteralExpression(arg)) {
       return parseObjectLiteral(arg) as SerializableOptions
     }
@@ -76,30 +561,159 @@ function parseSerializableOptions(decorator: ts.Decorator): SerializableOptions
   return {}
 }
 
-function parseClassFields(classNode: ts.ClassDeclaration): ParsedField[] {
+function parseClassFields(classNode: ts.ClassDeclaration, context: TypeContext): ParsedField[] {
   const fields: ParsedField[] = []
 
   for (const member of classNode.members) {
-    if (ts.isPropertyDeclaration(member) && member.name && ts.isIdentifier(member.name)) {
-      const field = parseField(member)
+    if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name)) {
+      const field = parseField(member, context)
+      if (field) {
+        fields.push(field)
+      }
+    } else if (ts.isPropertyDeclaration(member) && ts.isPrivateIdentifier(member.name)) {
+      // Private fields are internals unless they opt in
+      const field = findFieldDecorator(member) ? parseField(member, context) : null
       if (field) {
         fields.push(field)
       }
+    } else if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+      const field = parseAccessorField(member, classNode, context)
+      if (field && !fields.some((f) => f.propertyName === field.propertyName)) {
+        fields.push(field)
+      }
+    } else if (ts.isConstructorDeclaration(member)) {
+      for (const parameter of member.parameters) {
+        if (!ts.isParameterPropertyDeclaration(parameter, member)) {
+          continue
+        }
+        const field = parseField(parameter, context)
+        if (field) {
+          fields.push(field)
+        }
+      }
     }
   }
 
   return fields
 }
 
-function parseField(propertyNode: ts.PropertyDeclaration): ParsedField | null {
+/**
+ * Parse a getter/setter pair as a field, if either accessor is decorated with `@Field`.
+ * The field is read through the getter and written through the setter, so a getter
+ * without a setter is only serialized, and a setter without a getter only deserialized.
+ */
+function parseAccessorField(
+  accessor: ts.GetAccessorDeclaration | ts.SetAccessorDeclaration,
+  classNode: ts.ClassDeclaration,
+  context: TypeContext,
+): ParsedField | null {
+  const name = accessor.name
+  if (!ts.isIdentifier(name) && !ts.isPrivateIdentifier(name)) {
+    return null
+  }
+
+  const accessors = classNode.members.filter((member) =>
+    (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) &&
+    (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name)) &&
+    member.name.text === name.text && isStatic(member) === isStatic(accessor)
+  )
+  const getter = accessors.find(ts.isGetAccessorDeclaration)
+  const setter = accessors.find(ts.isSetAccessorDeclaration)
+  const decorated = [getter, setter].find((node) => node && findFieldDecorator(node))
+  if (!decorated || isStatic(decorated)) {
+    return null
+  }
+
+  const field = parseField(decorated, context)
+  if (!field) {
+    return null
+  }
+  // The type may be annotated on either accessor
+  const typeNode = getter?.type ?? setter?.parameters[0]?.type
+  field.type = getTypeString(typeNode)
+  field.typeInfo = field.options.dateFormat
+    ? withDateFormat(getTypeInfo(typeNode, context), field.options.dateFormat)
+    : getTypeInfo(typeNode, context)
+  if (!setter) {
+    field.options = { ...field.options, skipDeserializing: true }
+  }
+  if (!getter) {
+    field.options = { ...field.options, skipSerializing: true }
+  }
+  return field
+}
+
+function isStatic(member: ts.ClassElement): boolean {
+  return !!ts.getModifiers(member as ts.HasModifiers)?.some((modifier) => modifier.kind === ts.SyntaxKind.StaticKeyword)
+}
+
+/**
+ * Get the parameter names of the constructor a class is instantiated with: its own, or the
+ * nearest inherited one. A class without any constructor takes no parameters.
+ */
+function parseConstructorParameters(
+  classNode: ts.ClassDeclaration,
+  context: TypeContext,
+  seen: Set<ts.ClassDeclaration>,
+): string[] {
+  const constructor = classNode.members.find(ts.isConstructorDeclaration)
+  if (constructor) {
+    return constructor.parameters.map((parameter) => {
+      if (!ts.isIdentifier(parameter.name)) {
+        throw new Error(
+          `Cannot match the destructured constructor parameter ${parameter.name.getText()} of ${classNode.name?.text} ` +
+            `to a field, construct: "constructor" needs named parameters`,
+        )
+      }
+      return parameter.name.text
+    })
+  }
+
+  const base = getBaseClass(classNode, context, seen)
+  return base ? parseConstructorParameters(base.node, base.context, seen) : []
+}
+
+/**
+ * A class member that declares a field: a property, a constructor parameter property,
+ * or an accessor
+ */
+type FieldDeclaration =
+  | ts.PropertyDeclaration
+  | ts.ParameterDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration
+
+/**
+ * Get the type annotation of a field, or for an unannotated field the class it's initialized
+ * with, e.g. `Date` for `createdAt = new Date()`
+ */
+function getDeclaredType(propertyNode: FieldDeclaration): ts.TypeNode | undefined {
+  if (ts.isSetAccessorDeclaration(propertyNode)) {
+    return propertyNode.parameters[0]?.type
+  }
+  if (propertyNode.type || ts.isGetAccessorDeclaration(propertyNode)) {
+    return propertyNode.type
+  }
+
+  const initializer = propertyNode.initializer
+  if (initializer && ts.isNewExpression(initializer) && ts.isIdentifier(initializer.expression)) {
+    return ts.factory.createTypeReferenceNode(initializer.expression, initializer.typeArguments)
+  }
+  return undefined
+}
+
+function parseField(propertyNode: FieldDeclaration, context: TypeContext): ParsedField | null {
   const name = propertyNode.name
-  if (!name || !ts.isIdentifier(name)) {
+  if (!ts.isIdentifier(name) && !ts.isPrivateIdentifier(name)) {
     return null
   }
 
-  const propertyName = name.text
-  const isOptional = !!propertyNode.questionToken
-  const type = getTypeString(propertyNode.type)
+  const isPrivate = ts.isPrivateIdentifier(name)
+  const propertyName = isPrivate ? name.text.slice(1) : name.text
+  const isOptional = "questionToken" in propertyNode && !!propertyNode.questionToken
+  const typeNode = getDeclaredType(propertyNode)
+  const type = getTypeString(typeNode)
+  const typeInfo = getTypeInfo(typeNode, context)
 
   const fieldDecorator = findFieldDecorator(propertyNode)
   const ignoreDecorator = findIgnoreDecorator(propertyNode)
@@ -107,40 +721,91 @@ function parseField(propertyNode: ts.PropertyDeclaration): ParsedField | null {
 
   let options: FieldOptions = {}
   let isIgnored = false
+  let defaultValue: string | undefined
+  let skipIf: ParsedSkipIf | undefined
+  let constraints: string | undefined
+  let functions: FieldFunctions = {}
 
   if (ignoreDecorator) {
     isIgnored = true
   } else if (fieldDecorator) {
     options = parseFieldOptions(fieldDecorator)
-  } else if (customDecorator) {
-    options = parseCustomOptions(customDecorator)
+    defaultValue = getOptionExpression(fieldDecorator, "default")
+    skipIf = parseSkipIf(fieldDecorator, context)
+    constraints = parseConstraints(fieldDecorator)
+    functions = parseFieldFunctions(fieldDecorator, context)
+  }
+  if (customDecorator && !isIgnored) {
+    functions = parseCustomFunctions(customDecorator, context)
   }
 
   return {
     propertyName,
     type,
+    typeInfo: options.dateFormat ? withDateFormat(typeInfo, options.dateFormat) : typeInfo,
     options,
     isOptional,
     isIgnored,
+    ...(isPrivate ? { isPrivate } : {}),
+    ...(defaultValue !== undefined ? { defaultValue } : {}),
+    ...(skipIf !== undefined ? { skipIf } : {}),
+    ...(constraints !== undefined ? { constraints } : {}),
+    ...functions,
   }
 }
 
-function findFieldDecorator(propertyNode: ts.PropertyDeclaration): ts.Decorator | null {
+/**
+ * The `@Field` options checked by `validateConstraints`
+ */
+const CONSTRAINT_OPTIONS = [
+  "min",
+  "max",
+  "integer",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "oneOf",
+  "minItems",
+  "maxItems",
+  "format",
+] as const
+
+/**
+ * Collect the constraint options of a field as the source text of an object literal, so
+ * regular expression literals like `pattern: /^[a-z]+$/` are emitted as written
+ */
+function parseConstraints(decorator: ts.Decorator): string | undefined {
+  const entries = CONSTRAINT_OPTIONS.flatMap((name) => {
+    const expression = getOptionExpression(decorator, name)
+    return expression !== undefined ? [`${name}: ${expression}`] : []
+  })
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : undefined
+}
+
+/**
+ * The functions a field is serialized and deserialized with instead of the generated code
+ */
+type FieldFunctions = Pick<ParsedField, "serializeWith" | "deserializeWith">
+
+function findFieldDecorator(propertyNode: FieldDeclaration): ts.Decorator | null {
   return findDecoratorByName(propertyNode, "Field")
 }
 
-function findIgnoreDecorator(propertyNode: ts.PropertyDeclaration): ts.Decorator | null {
+function findIgnoreDecorator(propertyNode: FieldDeclaration): ts.Decorator | null {
   return findDecoratorByName(propertyNode, "Ignore")
 }
 
-function findCustomDecorator(propertyNode: ts.PropertyDeclaration): ts.Decorator | null {
+function findCustomDecorator(propertyNode: FieldDeclaration): ts.Decorator | null {
   return findDecoratorByName(propertyNode, "Custom")
 }
 
-function findDecoratorByName(propertyNode: ts.PropertyDeclaration, name: string): ts.Decorator | null {
-  if (!propertyNode.modifiers) { return null }
+function findDecoratorByName(
+  node: FieldDeclaration | ts.ClassDeclaration | ts.MethodDeclaration,
+  name: string,
+): ts.Decorator | null {
+  if (!node.modifiers) { return null }
 
-  for (const modifier of propertyNode.modifiers) {
+  for (const modifier of node.modifiers) {
     if (ts.isDecorator(modifier)) {
       const expression = modifier.expression
       if (ts.isCallExpression(expression) || ts.isIdentifier(expression)) {
@@ -166,15 +831,104 @@ function parseFieldOptions(decorator: ts.Decorator): FieldOptions {
   return {}
 }
 
-function parseCustomOptions(decorator: ts.Decorator): FieldOptions {
+/**
+ * Get the source text of an option passed to a decorator, e.g. `[]` for `@Field({ default: [] })`
+ */
+function getOptionExpression(decorator: ts.Decorator, name: string): string | undefined {
+  return getOptionInitializer(decorator, name)?.getText()
+}
+
+function getOptionInitializer(decorator: ts.Decorator, name: string): ts.Expression | undefined {
+  const expression = decorator.expression
+  if (!ts.isCallExpression(expression) || expression.arguments.length === 0) {
+    return undefined
+  }
+
+  const arg = expression.arguments[0]
+  if (!ts.isObjectLiteralExpression(arg)) {
+    return undefined
+  }
+  return getPropertyInitializer(arg, name)
+}
+
+function getPropertyInitializer(node: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  for (const property of node.properties) {
+    if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.name) && property.name.text === name) {
+      return property.initializer
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parse the `skipIf` option of a field: a built-in condition or a predicate
+ */
+function parseSkipIf(decorator: ts.Decorator, context: TypeContext): ParsedSkipIf | undefined {
+  const initializer = getOptionInitializer(decorator, "skipIf")
+  if (!initializer) {
+    return undefined
+  }
+  if (ts.isStringLiteral(initializer) && (initializer.text === "empty" || initializer.text === "default")) {
+    return initializer.text
+  }
+  return parseExpression(initializer, context)
+}
+
+/**
+ * Read `serializeWith` and `deserializeWith`, or the functions of the `transform` option
+ */
+function parseFieldFunctions(decorator: ts.Decorator, context: TypeContext): FieldFunctions {
+  const transform = getOptionInitializer(decorator, "transform")
+  const transformObject = transform && ts.isObjectLiteralExpression(transform) ? transform : undefined
+  const serializeWith = getOptionInitializer(decorator, "serializeWith") ??
+    (transformObject && getPropertyInitializer(transformObject, "serialize"))
+  const deserializeWith = getOptionInitializer(decorator, "deserializeWith") ??
+    (transformObject && getPropertyInitializer(transformObject, "deserialize"))
+
+  return {
+    ...(serializeWith ? { serializeWith: parseExpression(serializeWith, context) } : {}),
+    ...(deserializeWith ? { deserializeWith: parseExpression(deserializeWith, context) } : {}),
+  }
+}
+
+/**
+ * Read the serializer and deserializer passed to `@Custom(serializer, deserializer)`
+ */
+function parseCustomFunctions(decorator: ts.Decorator, context: TypeContext): FieldFunctions {
+  const expression = decorator.expression
+  if (!ts.isCallExpression(expression)) {
+    return {}
+  }
+
+  const [serializeWith, deserializeWith] = expression.arguments
   return {
-    transform: {
-      serialize: (v: unknown) => v,
-      deserialize: (v: unknown) => v,
-    },
+    ...(serializeWith ? { serializeWith: parseExpression(serializeWith, context) } : {}),
+    ...(deserializeWith ? { deserializeWith: parseExpression(deserializeWith, context) } : {}),
   }
 }
 
+/**
+ * Capture a function expression from a decorator. When it is (a property of) an identifier,
+ * the identifier is imported from wherever the field's file gets it, or from the field's
+ * file itself when declared there.
+ */
+function parseExpression(initializer: ts.Expression, context: TypeContext): ParsedExpression {
+  let root: ts.Expression = initializer
+  while (ts.isPropertyAccessExpression(root)) {
+    root = root.expression
+  }
+  if (!ts.isIdentifier(root)) {
+    return { expression: initializer.getText() }
+  }
+
+  const name = root.text
+  const imported = context.imports.get(name)
+  const importFrom = imported
+    ? getImportFrom(name, context)
+    : { name, module: relativeSpecifier(context.rootFilePath, context.filePath) }
+  return { expression: initializer.getText(), ...(importFrom ? { importFrom } : {}) }
+}
+
 function parseObjectLiteral(node: ts.ObjectLiteralExpression): Record<string, unknown> {
   const result: Record<string, unknown> = {}
 
@@ -196,6 +950,17 @@ function getLiteralValue(node: ts.Expression): unknown {
   if (ts.isNumericLiteral(node)) {
     return parseFloat(node.text)
   }
+  if (
+    ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)
+  ) {
+    return -parseFloat(node.operand.text)
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return parseObjectLiteral(node)
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map((element) => getLiteralValue(element))
+  }
   if (node.kind === ts.SyntaxKind.TrueKeyword) {
     return true
   }
@@ -219,20 +984,36 @@ function getTypeString(typeNode: ts.TypeNode | undefined): string {
     return `${elementType}[]`
   }
 
-  // Handle type references like User, Date, etc.
+  // Handle readonly arrays and tuples like readonly string[]
+  if (ts.isTypeOperatorNode(typeNode) && typeNode.operator === ts.SyntaxKind.ReadonlyKeyword) {
+    return getTypeString(typeNode.type)
+  }
+
+  // Handle tuple types like [number, number], [string, ...number[]]
+  if (ts.isTupleTypeNode(typeNode)) {
+    return typeNode.getText()
+  }
+
+  // Handle type references like User, Date, Map<string, User>, etc.
   if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+    if (typeNode.typeArguments) {
+      return `${typeNode.typeName.text}<${typeNode.typeArguments.map((arg) => getTypeString(arg)).join(", ")}>`
+    }
     return typeNode.typeName.text
   }
 
-  // Handle union types (basic support for optional types)
+  // Handle qualified names like Temporal.Instant
+  if (ts.isTypeReferenceNode(typeNode) && ts.isQualifiedName(typeNode.typeName)) {
+    return typeNode.typeName.getText()
+  }
+
+  // Handle union types, keeping `| null` since null is written explicitly unlike undefined
   if (ts.isUnionTypeNode(typeNode)) {
-    // For now, just get the first non-undefined type
-    for (const type of typeNode.types) {
-      if (type.kind !== ts.SyntaxKind.UndefinedKeyword) {
-        return getTypeString(type)
-      }
+    const inner = typeNode.types.find((type) => type.kind !== ts.SyntaxKind.UndefinedKeyword && !isNullType(type))
+    if (!inner) {
+      return "unknown"
     }
-    return "unknown"
+    return typeNode.types.some(isNullType) ? `${getTypeString(inner)} | null` : getTypeString(inner)
   }
 
   // Handle primitive types
@@ -241,6 +1022,8 @@ function getTypeString(typeNode: ts.TypeNode | undefined): string {
       return "string"
     case ts.SyntaxKind.NumberKeyword:
       return "number"
+    case ts.SyntaxKind.BigIntKeyword:
+      return "bigint"
     case ts.SyntaxKind.BooleanKeyword:
       return "boolean"
     case ts.SyntaxKind.AnyKeyword:
@@ -255,3 +1038,253 @@ function getTypeString(typeNode: ts.TypeNode | undefined): string {
       return "unknown"
   }
 }
+
+/**
+ * Resolve a field's type annotation into a structured type, recognising enums,
+ * literal unions and unions of classes so the generator can handle them.
+ * Unions including `null` are wrapped as nullable, unlike `undefined` which only
+ * makes a field optional.
+ */
+function getTypeInfo(typeNode: ts.TypeNode | undefined, context: TypeContext): ParsedType {
+  const type = resolveTypeInfo(typeNode, context)
+  if (type.kind !== "nullable" && typeNode && ts.isUnionTypeNode(typeNode) && typeNode.types.some(isNullType)) {
+    return { kind: "nullable", inner: type }
+  }
+  return type
+}
+
+/**
+ * Parse a tuple position: `T`, `T?`, `...T[]`, or the named forms `name: T`, `name?: T` and `...name: T[]`
+ */
+function getTupleElement(node: ts.TypeNode, context: TypeContext): ParsedTupleElement {
+  let type = node
+  let optional = false
+  let rest = false
+
+  if (ts.isNamedTupleMember(node)) {
+    type = node.type
+    optional = !!node.questionToken
+    rest = !!node.dotDotDotToken
+  } else if (ts.isOptionalTypeNode(node)) {
+    type = node.type
+    optional = true
+  } else if (ts.isRestTypeNode(node)) {
+    type = node.type
+    rest = true
+  }
+
+  if (!rest) {
+    return { type: getTypeInfo(type, context), ...(optional ? { optional } : {}) }
+  }
+  const restType = getTypeInfo(type, context)
+  return { type: restType.kind === "array" ? restType.element : restType, rest }
+}
+
+function resolveTypeInfo(typeNode: ts.TypeNode | undefined, context: TypeContext): ParsedType {
+  if (!typeNode) {
+    return { kind: "primitive", name: "unknown" }
+  }
+
+  const literalVariants = getLiteralVariants(typeNode)
+  if (literalVariants) {
+    const name = ts.isUnionTypeNode(typeNode)
+      ? typeNode.types
+        .filter((type) => type.kind !== ts.SyntaxKind.UndefinedKeyword && !isNullType(type))
+        .map((type) => type.getText())
+        .join(" | ")
+      : typeNode.getText()
+    return { kind: "enum", enum: { name, variants: literalVariants, options: {} } }
+  }
+
+  if (ts.isParenthesizedTypeNode(typeNode)) {
+    return getTypeInfo(typeNode.type, context)
+  }
+
+  if (ts.isArrayTypeNode(typeNode)) {
+    return { kind: "array", element: getTypeInfo(typeNode.elementType, context) }
+  }
+
+  // `readonly T[]` and `readonly [A, B]` are deserialized like their mutable forms
+  if (ts.isTypeOperatorNode(typeNode) && typeNode.operator === ts.SyntaxKind.ReadonlyKeyword) {
+    return getTypeInfo(typeNode.type, context)
+  }
+
+  if (ts.isTupleTypeNode(typeNode)) {
+    return { kind: "tuple", elements: typeNode.elements.map((element) => getTupleElement(element, context)) }
+  }
+
+  if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+    const name = typeNode.typeName.text
+    const typeParameterIndex = context.typeParameters.indexOf(name)
+    if (typeParameterIndex !== -1) {
+      return { kind: "typeParameter", name, index: typeParameterIndex }
+    }
+    if (name === "Date") {
+      return { kind: "date" }
+    }
+    if (isBuiltinType(name)) {
+      return { kind: "builtin", name }
+    }
+    const collection = getCollectionType(name, typeNode.typeArguments ?? [], context)
+    if (collection) {
+      return collection
+    }
+    const parsedEnum = context.enums.get(name)
+    if (parsedEnum) {
+      return { kind: "enum", enum: parsedEnum }
+    }
+    // Enums and literal aliases of other modules are named by their local name in generated code
+    const module = resolveImport(name, context)
+    const importedEnum = module?.context.enums.get(module.name)
+    if (importedEnum) {
+      return { kind: "enum", enum: { ...importedEnum, name }, importFrom: getImportFrom(name, context) }
+    }
+    const alias = context.aliases.get(name)
+    if (alias) {
+      const aliasedType = getTypeInfo(alias, context)
+      return aliasedType.kind === "union" ? { ...aliasedType, name } : aliasedType
+    }
+    const reference: ParsedType = { kind: "reference", name }
+    if (typeNode.typeArguments) {
+      reference.typeArguments = typeNode.typeArguments.map((arg) => getTypeInfo(arg, context))
+    }
+    const importFrom = getImportFrom(name, context)
+    if (importFrom) {
+      reference.importFrom = importFrom
+    }
+    return reference
+  }
+
+  if (ts.isUnionTypeNode(typeNode)) {
+    const members = typeNode.types.filter((type) => type.kind !== ts.SyntaxKind.UndefinedKeyword && !isNullType(type))
+    if (members.length > 1 && members.every((type) => ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName))) {
+      return getClassUnion(typeNode.getText(), members.map((type) => type.getText()), context)
+    }
+    // Otherwise just use the first non-undefined type
+    if (members.length > 0) {
+      return getTypeInfo(members[0], context)
+    }
+  }
+
+  if (ts.isTypeReferenceNode(typeNode) && ts.isQualifiedName(typeNode.typeName)) {
+    const name = typeNode.typeName.getText()
+    if (isBuiltinType(name)) {
+      return { kind: "builtin", name }
+    }
+  }
+
+  return { kind: "primitive", name: getTypeString(typeNode) }
+}
+
+function isNullType(typeNode: ts.TypeNode): boolean {
+  return ts.isLiteralTypeNode(typeNode) && typeNode.literal.kind === ts.SyntaxKind.NullKeyword
+}
+
+/**
+ * Resolve `Map`, `Set` and `Record` references with their type arguments.
+ * Returns null for any other reference.
+ */
+function getCollectionType(
+  name: string,
+  typeArguments: readonly ts.TypeNode[],
+  context: TypeContext,
+): ParsedType | null {
+  const [first, second] = typeArguments.map((arg) => getTypeInfo(arg, context))
+
+  switch (name) {
+    case "Array":
+    case "ReadonlyArray":
+      return typeArguments.length === 1 ? { kind: "array", element: first } : null
+    case "Set":
+    case "ReadonlySet":
+      return typeArguments.length === 1 ? { kind: "set", element: first } : null
+    case "Map":
+    case "ReadonlyMap":
+      return typeArguments.length === 2 ? { kind: "map", key: first, value: second } : null
+    case "Record":
+      return typeArguments.length === 2 ? { kind: "record", key: first, value: second } : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Build a union of classes, taking each variant's name and the union's tagging
+ * options from the `@Serializable` options of the member classes
+ */
+function getClassUnion(name: string, classNames: string[], context: TypeContext): ParsedType {
+  let representation: UnionRepresentation | undefined
+  const classOptions = new Map(classNames.map((className) => [className, getClassOptions(className, context)]))
+
+  for (const options of classOptions.values()) {
+    if (!options) {
+      continue
+    }
+
+    const classRepresentation: UnionRepresentation = {}
+    if (options.tag !== undefined) {
+      classRepresentation.tag = options.tag
+    }
+    if (options.content !== undefined) {
+      classRepresentation.content = options.content
+    }
+    if (options.untagged !== undefined) {
+      classRepresentation.untagged = options.untagged
+    }
+    if (representation && JSON.stringify(representation) !== JSON.stringify(classRepresentation)) {
+      throw new Error(`Union ${name} mixes classes with different tag, content or untagged options`)
+    }
+    representation = classRepresentation
+  }
+
+  return {
+    kind: "union",
+    name,
+    variants: classNames.map((className) => {
+      const importFrom = getImportFrom(className, context)
+      return {
+        name: classOptions.get(className)?.name ?? className,
+        className,
+        ...(importFrom ? { importFrom } : {}),
+      }
+    }),
+    representation: representation ?? {},
+  }
+}
+
+/**
+ * Get the `@Serializable` options of a class declared in the file or in the relatively imported
+ * module it comes from, or undefined if the class isn't `@Serializable`
+ */
+function getClassOptions(className: string, context: TypeContext): SerializableOptions | undefined {
+  const imported = context.imports.get(className)
+  if (!imported || context.classes.has(className)) {
+    return context.classes.get(className)
+  }
+
+  const module = resolveImport(className, context)
+  if (!module) {
+    throw new Error(`Cannot read the @Serializable options of ${className} from "${imported.module}"`)
+  }
+  return module.context.classes.get(module.name)
+}
+
+/**
+ * Get where generated code should import a referenced class from when it isn't declared in
+ * the root file: the module it is imported from, or the file of the base class declaring it.
+ * Specifiers are made relative to the root file.
+ */
+function getImportFrom(name: string, context: TypeContext): ParsedImport | undefined {
+  const imported = context.imports.get(name)
+  if (imported) {
+    if (!imported.module.startsWith(".")) {
+      return imported
+    }
+    const filePath = resolveSpecifier(context.filePath, imported.module)
+    return { name: imported.name, module: relativeSpecifier(context.rootFilePath, filePath) }
+  }
+  if (context.classNodes.has(name) && context.filePath !== context.rootFilePath) {
+    return { name, module: relativeSpecifier(context.rootFilePath, context.filePath) }
+  }
+  return undefined
+}
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Path helpers for resolving relative module specifiers between source files
+ */
+
+/**
+ * Resolve a relative module specifier against the file that imports it
+ *
+ * @param importer Path of the importing file
+ * @param specifier Relative specifier, e.g. `../models/user.ts`
+ * @returns The normalized path of the imported file
+ */
+export function resolveSpecifier(importer: string, specifier: string): string {
+  return normalizePath(`${dirname(importer)}/${specifier}`)
+}
+
+/**
+ * Get the relative specifier that imports one file from another
+ *
+ * @param fromFile Path of the importing file
+ * @param toFile Path of the imported file
+ * @returns A specifier starting with `./` or `../`
+ */
+export function relativeSpecifier(fromFile: string, toFile: string): string {
+  const fromParts = normalizePath(dirname(fromFile)).split("/").filter((part) => part !== ".")
+  const toParts = normalizePath(toFile).split("/").filter((part) => part !== ".")
+
+  let common = 0
+  while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) {
+    common++
+  }
+
+  const up = fromParts.slice(common).map(() => "..")
+  const specifier = [...up, ...toParts.slice(common)].join("/")
+  return up.length > 0 ? specifier : `./${specifier}`
+}
+
+function dirname(filePath: string): string {
+  const index = filePath.lastIndexOf("/")
+  if (index === -1) {
+    return "."
+  }
+  return index === 0 ? "/" : filePath.substring(0, index)
+}
+
+function normalizePath(filePath: string): string {
+  const isAbsolute = filePath.startsWith("/")
+  const parts: string[] = []
+
+  for (const part of filePath.split("/")) {
+    if (part === "" || part === ".") {
+      continue
+    }
+    if (part === ".." && parts.length > 0 && parts[parts.length - 1] !== "..") {
+      parts.pop()
+    } else {
+      parts.push(part)
+    }
+  }
+
+  const normalized = parts.join("/")
+  if (isAbsolute) {
+    return `/${normalized}`
+  }
+  return normalized === "" ? "." : normalized
+}
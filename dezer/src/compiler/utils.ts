@@ -4,7 +4,7 @@ import type { ParsedClass } from "../types.ts"
 
 export async function processFile(filePath: string): Promise<string | null> {
   const content = await Deno.readTextFile(filePath)
-  const parsedClasses = parseSourceFile(filePath, content)
+  const parsedClasses = parseSourceFile(filePath, content, readSourceFile)
 
   if (parsedClasses.length === 0) {
     return null
@@ -13,6 +13,14 @@ export async function processFile(filePath: string): Promise<string | null> {
   return generateAugmentationFile(parsedClasses, filePath)
 }
 
+function readSourceFile(filePath: string): string | null {
+  try {
+    return Deno.readTextFileSync(filePath)
+  } catch {
+    return null
+  }
+}
+
 export async function findSourceFiles(directory: string): Promise<string[]> {
   const files: string[] = []
 
@@ -1,24 +1,76 @@
-import type { CustomDeserializer, CustomSerializer, FieldOptions, SerializableOptions } from "./types.ts"
+import { type PrivateMember, registerPrivateMember } from "./traits.ts"
+import type {
+  Class,
+  CustomDeserializer,
+  CustomSerializer,
+  EnumOptions,
+  FieldOptions,
+  SerializableOptions,
+} from "./types.ts"
 
 // Standard TC39 Stage 3 decorators - these are no-op at runtime
 // The actual processing happens during AST parsing by the code generator
 
-export function Serializable<T extends abstract new (...args: any) => any>(
+type MemberDecoratorContext =
+  | ClassFieldDecoratorContext
+  | ClassGetterDecoratorContext
+  | ClassSetterDecoratorContext
+
+export function Serializable<T extends Class>(
   target: T,
   context: ClassDecoratorContext,
-): T {
+): T
+export function Serializable(
+  options?: SerializableOptions,
+): <T extends Class>(target: T, context: ClassDecoratorContext) => T
+export function Serializable(targetOrOptions?: unknown, _context?: ClassDecoratorContext): unknown {
   // No-op at runtime - processed by AST parser
-  return target
+  if (typeof targetOrOptions === "function") {
+    return targetOrOptions
+  }
+  return (target: unknown) => target
+}
+
+// Describes the fields of a class we can't decorate, e.g. one from another package.
+// The generated code installs the traits on the foreign class's prototype.
+export function SerializableRemote(
+  _remote: Class,
+  _options?: SerializableOptions,
+): <T extends Class>(target: T, context: ClassDecoratorContext) => T {
+  // No-op at runtime - processed by AST parser
+  return (target) => target
 }
 
 export function Field(options: FieldOptions = {}): any {
-  return function (target: any, context: ClassFieldDecoratorContext): any {
-    // No-op at runtime - processed by AST parser
+  return function (target: any, context: MemberDecoratorContext): any {
+    // Processed by AST parser, but generated code can only reach `#private` members
+    // through the accessors handed to their decorator
+    if (context.private) {
+      registerPrivateMember(context.metadata, String(context.name), context.access as PrivateMember)
+    }
     return target
   }
 }
 
-export function Ignore(target: any, context: ClassFieldDecoratorContext): any {
+export function Ignore(target: any, context: MemberDecoratorContext): any {
+  // No-op at runtime - processed by AST parser
+  return target
+}
+
+// Lifecycle hooks, called by the generated code by method name: `@BeforeSerialize` methods
+// before the fields are written, `@AfterDeserialize` and then `@Validate` methods once an
+// instance is read
+export function BeforeSerialize<T>(target: T, _context: ClassMethodDecoratorContext): T {
+  // No-op at runtime - processed by AST parser
+  return target
+}
+
+export function AfterDeserialize<T>(target: T, _context: ClassMethodDecoratorContext): T {
+  // No-op at runtime - processed by AST parser
+  return target
+}
+
+export function Validate<T>(target: T, _context: ClassMethodDecoratorContext): T {
   // No-op at runtime - processed by AST parser
   return target
 }
@@ -32,3 +84,13 @@ export function Custom<T>(
     return target
   }
 }
+
+// Enums can't carry decorators, so their options are declared with a marker call
+// alongside the enum, e.g. `SerializableEnum(Status, { serializeBy: "name" })`
+export function SerializableEnum<T extends Record<string, string | number>>(
+  target: T,
+  _options: EnumOptions = {},
+): T {
+  // No-op at runtime - processed by AST parser
+  return target
+}
@@ -5,6 +5,8 @@
  * This mirrors Rust serde's Deserializer and Visitor traits.
  */
 
+import type { DateFormat } from "./types.ts"
+
 /**
  * Core deserializer interface that all format implementations must provide.
  *
@@ -37,6 +39,14 @@ export interface Deserializer {
    */
   deserializeNumber<T>(visitor: Visitor<T>): T
 
+  /**
+   * Deserialize an arbitrary-precision integer
+   *
+   * @param visitor The visitor to handle the integer
+   * @returns The result from the visitor
+   */
+  deserializeBigInt<T>(visitor: Visitor<T>): T
+
   /**
    * Deserialize a string value
    *
@@ -53,6 +63,15 @@ export interface Deserializer {
    */
   deserializeBytes<T>(visitor: Visitor<T>): T
 
+  /**
+   * Deserialize a date, either native to the format or written in the given date format
+   *
+   * @param visitor The visitor to handle the date
+   * @param format The wire format chosen for the field
+   * @returns The result from the visitor
+   */
+  deserializeDate<T>(visitor: Visitor<T>, format?: DateFormat): T
+
   /**
    * Deserialize a sequence (array/list)
    *
@@ -91,11 +110,11 @@ export interface Deserializer {
    * Deserialize an enum variant
    *
    * @param name The expected enum name
-   * @param variants The possible variant names
+   * @param variants The possible variant names (or values, for enums serialized by value)
    * @param visitor The visitor to handle the enum
    * @returns The result from the visitor
    */
-  deserializeEnum<T>(name: string, variants: string[], visitor: Visitor<T>): T
+  deserializeEnum<T>(name: string, variants: (string | number)[], visitor: Visitor<T>): T
 }
 
 /**
@@ -126,6 +145,11 @@ export interface Visitor<T> {
    */
   visitNumber(v: number): T
 
+  /**
+   * Visit an integer too large to be represented exactly as a number
+   */
+  visitBigInt(v: bigint): T
+
   /**
    * Visit a string value
    */
@@ -136,6 +160,11 @@ export interface Visitor<T> {
    */
   visitBytes(v: Uint8Array): T
 
+  /**
+   * Visit a date
+   */
+  visitDate(v: Date): T
+
   /**
    * Visit a sequence (array/list)
    *
@@ -219,7 +248,7 @@ export interface EnumAccess {
    *
    * @returns A tuple of [variant_name, variant_data]
    */
-  variant<T>(): [string, T]
+  variant<T>(): [string | number, T]
 }
 
 /**
@@ -253,6 +282,10 @@ export abstract class BaseVisitor<T> implements Visitor<T> {
     throw new DeserializationError(`Expected ${this.expecting()}, found number: ${v}`)
   }
 
+  visitBigInt(v: bigint): T {
+    throw new DeserializationError(`Expected ${this.expecting()}, found bigint: ${v}`)
+  }
+
   visitString(v: string): T {
     throw new DeserializationError(`Expected ${this.expecting()}, found string: "${v}"`)
   }
@@ -261,6 +294,10 @@ export abstract class BaseVisitor<T> implements Visitor<T> {
     throw new DeserializationError(`Expected ${this.expecting()}, found bytes of length ${v.length}`)
   }
 
+  visitDate(v: Date): T {
+    throw new DeserializationError(`Expected ${this.expecting()}, found date: ${v.toISOString()}`)
+  }
+
   visitSeq(seq: SeqAccess): T {
     throw new DeserializationError(`Expected ${this.expecting()}, found sequence`)
   }
@@ -301,6 +338,10 @@ export class PrimitiveVisitor<T> extends BaseVisitor<T> {
     return this.handler(v)
   }
 
+  override visitBigInt(v: bigint): T {
+    return this.handler(v)
+  }
+
   override visitString(v: string): T {
     return this.handler(v)
   }
@@ -308,4 +349,40 @@ export class PrimitiveVisitor<T> extends BaseVisitor<T> {
   override visitBytes(v: Uint8Array): T {
     return this.handler(v)
   }
+
+  override visitDate(v: Date): T {
+    return this.handler(v)
+  }
+}
+
+/**
+ * Parse a date written in one of the date formats
+ *
+ * @param value The string or number read from the input
+ * @param format The wire format, or undefined to accept any string `Date` can parse
+ * @returns The date, or undefined if the value isn't a valid date in the format
+ */
+export function parseDate(value: unknown, format?: DateFormat): Date | undefined {
+  let date: Date | undefined
+  switch (format) {
+    case "epochMillis":
+      date = typeof value === "number" ? new Date(value) : undefined
+      break
+    case "epochSeconds":
+      date = typeof value === "number" ? new Date(value * 1000) : undefined
+      break
+    case "iso8601":
+      date = typeof value === "string" && ISO_8601.test(value) ? new Date(value) : undefined
+      break
+    case "dateOnly":
+      date = typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(value) : undefined
+      break
+    case "rfc2822":
+    case undefined:
+      date = typeof value === "string" ? new Date(value) : undefined
+      break
+  }
+  return date && !isNaN(date.getTime()) ? date : undefined
 }
+
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
@@ -1,21 +1,73 @@
-export { Custom, Field, Ignore, Serializable } from "./decorators.ts"
-export type { CustomDeserializer, CustomSerializer, FieldOptions, SerializableOptions } from "./types.ts"
-export { DESERIALIZE, SERIALIZE } from "./traits.ts"
+export {
+  AfterDeserialize,
+  BeforeSerialize,
+  Custom,
+  Field,
+  Ignore,
+  Serializable,
+  SerializableEnum,
+  SerializableRemote,
+  Validate,
+} from "./decorators.ts"
+export type {
+  Class,
+  CustomDeserializer,
+  CustomSerializer,
+  DateFormat,
+  DeserializeOptions,
+  EnumOptions,
+  EnumVariant,
+  FieldConstraints,
+  FieldOptions,
+  Mutable,
+  RenameAll,
+  RenameRule,
+  SerializableOptions,
+  StringFormat,
+  TypeArgument,
+  TypeArgumentValue,
+  UnionRepresentation,
+  UnionVariant,
+} from "./types.ts"
+export { DESERIALIZE, SERIALIZE, withTypeArguments } from "./traits.ts"
 export type { Deserialize, Serialize } from "./traits.ts"
 export type { Serializer } from "./serializer.ts"
 export type { Deserializer, EnumAccess, MapAccess, SeqAccess, Visitor } from "./deserializer.ts"
 export {
+  collectIssues,
+  deserializeBigIntValue,
+  deserializeDateValue,
+  deserializeEnumKey,
+  deserializeEnumValue,
+  deserializeFlattened,
   deserializeNestedObject,
+  deserializeNewtype,
+  deserializeNullable,
   deserializeObjectArray,
+  deserializeTypeArgument,
+  deserializeUnionValue,
+  recordIssue,
+  rejectMissingField,
+  rejectUnknownField,
   validateArray,
+  validateBigInt,
   validateBoolean,
   validateBooleanArray,
+  validateBytes,
+  validateConstraints,
   validateDate,
   validateNumber,
   validateNumberArray,
+  validateNumberKey,
   validateObject,
   validateObjectArray,
+  validateRegExp,
   validateString,
   validateStringArray,
+  validateTemporal,
+  validateTuple,
+  validateTypedArray,
+  validateURL,
   ValidationError,
 } from "./validation.ts"
+export type { TemporalType, TypedArrayConstructor, ValidationIssue } from "./validation.ts"
@@ -5,6 +5,9 @@
  * must implement. This mirrors Rust serde's Serializer trait.
  */
 
+import { SERIALIZE, type Serialize } from "./traits.ts"
+import type { DateFormat, EnumVariant, UnionRepresentation, UnionVariant } from "./types.ts"
+
 /**
  * Core serializer interface that all format implementations must provide.
  *
@@ -28,6 +31,11 @@ export interface Serializer {
    */
   serializeNumber(v: number): void
 
+  /**
+   * Serialize an arbitrary-precision integer, which formats should write exactly
+   */
+  serializeBigInt(v: bigint): void
+
   /**
    * Serialize a string value
    */
@@ -38,6 +46,15 @@ export interface Serializer {
    */
   serializeBytes(v: Uint8Array): void
 
+  /**
+   * Serialize a date. Without a format, formats write their native representation,
+   * e.g. a YAML timestamp; otherwise they should write `formatDate(v, format)`.
+   *
+   * @param v The date to serialize
+   * @param format The wire format chosen for the field
+   */
+  serializeDate(v: Date, format?: DateFormat): void
+
   // Compound types
   /**
    * Begin serializing a sequence (array/list)
@@ -85,10 +102,10 @@ export interface Serializer {
    * Serialize an enum variant
    *
    * @param name The enum name
-   * @param variant The variant name
+   * @param variant The variant name, or its value for enums serialized by value
    * @param data Optional data for the variant
    */
-  serializeEnum(name: string, variant: string, data?: unknown): void
+  serializeEnum(name: string, variant: string | number, data?: unknown): void
 }
 
 /**
@@ -208,11 +225,395 @@ export function serializePrimitive(serializer: Serializer, value: unknown): void
     serializer.serializeBool(value)
   } else if (typeof value === "number") {
     serializer.serializeNumber(value)
+  } else if (typeof value === "bigint") {
+    serializer.serializeBigInt(value)
   } else if (typeof value === "string") {
     serializer.serializeString(value)
   } else if (value instanceof Uint8Array) {
     serializer.serializeBytes(value)
+  } else if (value instanceof Date) {
+    serializer.serializeDate(value)
   } else {
     throw new SerializationError(`Cannot serialize primitive value: ${typeof value}`)
   }
 }
+
+/**
+ * Write a date in one of the date formats
+ *
+ * @param date The date to write
+ * @param format The wire format (default: "iso8601")
+ * @returns A string, or a number for the epoch formats
+ * @throws SerializationError if the date is invalid
+ */
+export function formatDate(date: Date, format: DateFormat = "iso8601"): string | number {
+  if (isNaN(date.getTime())) {
+    throw new SerializationError("Cannot serialize an invalid Date")
+  }
+  switch (format) {
+    case "iso8601":
+      return date.toISOString()
+    case "epochMillis":
+      return date.getTime()
+    case "epochSeconds":
+      return date.getTime() / 1000
+    case "rfc2822":
+      return date.toUTCString()
+    case "dateOnly":
+      return date.toISOString().slice(0, 10)
+  }
+}
+
+/**
+ * Call the `@BeforeSerialize` methods of an instance before its fields are written
+ *
+ * @param instance The instance being serialized
+ * @param name The struct name
+ * @param methods The hook method names, base class methods first
+ * @throws SerializationError naming the struct and method if a hook throws
+ */
+export function runSerializeHooks(instance: object, name: string, methods: string[]): void {
+  for (const method of methods) {
+    try {
+      ;(instance as Record<string, () => void>)[method]()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new SerializationError(`Error in ${method}() of struct ${name}: ${message}`, error as Error)
+    }
+  }
+}
+
+/**
+ * Wrap a serialization callback as a value implementing the Serialize trait
+ *
+ * Used by generated code to hand values that need custom handling (enum variants,
+ * sequences of such values) to `serializeField`/`serializeElement`.
+ *
+ * @param fn Callback that writes the value to the given serializer
+ */
+export function serializeAs(fn: (serializer: Serializer) => void): Serialize {
+  return {
+    [SERIALIZE](serializer: Serializer) {
+      fn(serializer)
+    },
+  }
+}
+
+/**
+ * Serialize a nullable value through `serializeOption`, writing `null` and `undefined` as none
+ *
+ * @param serializer The serializer to use
+ * @param value The value to serialize
+ * @param some Converts a present value before it is passed to `serializeSome`
+ */
+export function serializeNullable<T>(
+  serializer: Serializer,
+  value: T | null | undefined,
+  some: (value: T) => unknown = (value) => value,
+): void {
+  const option = serializer.serializeOption<unknown>(value)
+  if (value === null || value === undefined) {
+    option.serializeNone()
+  } else {
+    option.serializeSome(some(value))
+  }
+}
+
+/**
+ * Check whether a value is empty for `skipIf: "empty"`: null, undefined, an empty string,
+ * array, `Map` or `Set`, or a plain object without keys
+ */
+export function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) {
+    return true
+  }
+  if (typeof value === "string" || Array.isArray(value)) {
+    return value.length === 0
+  }
+  if (value instanceof Map || value instanceof Set) {
+    return value.size === 0
+  }
+  if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.keys(value).length === 0
+  }
+  return false
+}
+
+/**
+ * Check whether a value structurally equals a field's default for `skipIf: "default"`
+ *
+ * @param value The field value
+ * @param defaultValue The field's default value
+ */
+export function isDefaultValue(value: unknown, defaultValue: unknown): boolean {
+  if (Object.is(value, defaultValue)) {
+    return true
+  }
+  if (typeof value !== "object" || typeof defaultValue !== "object" || value === null || defaultValue === null) {
+    return false
+  }
+  if (value instanceof Date && defaultValue instanceof Date) {
+    return value.getTime() === defaultValue.getTime()
+  }
+  if (value instanceof Set && defaultValue instanceof Set) {
+    return value.size === defaultValue.size && [...value].every((element) => defaultValue.has(element))
+  }
+  if (value instanceof Map && defaultValue instanceof Map) {
+    return value.size === defaultValue.size &&
+      [...value].every(([key, entry]) => defaultValue.has(key) && isDefaultValue(entry, defaultValue.get(key)))
+  }
+  if (Array.isArray(value) !== Array.isArray(defaultValue)) {
+    return false
+  }
+
+  const keys = Object.keys(value)
+  const defaultKeys = Object.keys(defaultValue)
+  return keys.length === defaultKeys.length &&
+    keys.every((key) =>
+      Object.hasOwn(defaultValue, key) &&
+      isDefaultValue((value as Record<string, unknown>)[key], (defaultValue as Record<string, unknown>)[key])
+    )
+}
+
+/**
+ * Serialize an enum value as one of its declared variants
+ *
+ * @param serializer The serializer to use
+ * @param name The enum name
+ * @param variants The declared variants of the enum
+ * @param serializeBy Whether to write the variant name or its value
+ * @param value The runtime enum value
+ * @throws SerializationError if the value is not one of the variants
+ */
+export function serializeEnumValue(
+  serializer: Serializer,
+  name: string,
+  variants: EnumVariant[],
+  serializeBy: "name" | "value",
+  value: unknown,
+): void {
+  serializer.serializeEnum(name, serializeEnumKey(name, variants, serializeBy, value))
+}
+
+/**
+ * Get the variant name or value written for an enum value, e.g. when it is used as a map key
+ *
+ * @param name The enum name
+ * @param variants The declared variants of the enum
+ * @param serializeBy Whether to write the variant name or its value
+ * @param value The runtime enum value
+ * @throws SerializationError if the value is not one of the variants
+ */
+export function serializeEnumKey(
+  name: string,
+  variants: EnumVariant[],
+  serializeBy: "name" | "value",
+  value: unknown,
+): string | number {
+  const variant = variants.find((v) => v.value === value)
+  if (!variant) {
+    throw new SerializationError(`Cannot serialize ${JSON.stringify(value)} as a variant of enum ${name}`)
+  }
+  return serializeBy === "name" ? variant.name : variant.value
+}
+
+/**
+ * Serialize an instance of one of the classes in a union, writing the variant
+ * name according to the union's representation (externally, internally or
+ * adjacently tagged, or untagged)
+ *
+ * @param serializer The serializer to use
+ * @param name The union name
+ * @param variants The classes in the union with their variant names
+ * @param representation How the variant name is written
+ * @param value The instance to serialize
+ * @throws SerializationError if the value is not an instance of any variant
+ */
+export function serializeUnionValue(
+  serializer: Serializer,
+  name: string,
+  variants: UnionVariant[],
+  representation: UnionRepresentation,
+  value: unknown,
+): void {
+  const variant = variants.find((v) => value instanceof v.type)
+  if (!variant) {
+    throw new SerializationError(`Cannot serialize ${typeof value} as a variant of ${name}`)
+  }
+
+  const serializable = value as Serialize
+  if (representation.untagged) {
+    serializable[SERIALIZE](serializer)
+  } else if (representation.tag && representation.content) {
+    const struct = serializer.serializeStruct(name, 2)
+    struct.serializeField(representation.tag, variant.name)
+    struct.serializeField(representation.content, serializable)
+    struct.end()
+  } else if (representation.tag) {
+    serializable[SERIALIZE](new InternallyTaggedSerializer(serializer, representation.tag, variant.name))
+  } else {
+    serializer.serializeEnum(name, variant.name, serializable)
+  }
+}
+
+/**
+ * Serialize a flattened field: the fields of the struct (or entries of the map) it serializes
+ * to are written into the parent struct instead of under the field's own name
+ *
+ * @param struct The parent struct serializer
+ * @param value The field value
+ * @throws SerializationError if the value doesn't serialize to a struct or map
+ */
+export function serializeFlattened(struct: StructSerializer, value: Serialize): void {
+  value[SERIALIZE](new FlatSerializer(struct))
+}
+
+/**
+ * Serializer that writes a tag field in front of the fields of the struct or map
+ * serialized through it. Anything other than a struct or map can't carry the tag.
+ */
+class InternallyTaggedSerializer implements Serializer {
+  constructor(
+    private inner: Serializer,
+    private tag: string,
+    private variant: string,
+  ) {}
+
+  private unsupported(kind: string): SerializationError {
+    return new SerializationError(`Cannot serialize ${kind} as internally tagged variant ${this.variant}`)
+  }
+
+  serializeNull(): void {
+    throw this.unsupported("null")
+  }
+
+  serializeBool(): void {
+    throw this.unsupported("boolean")
+  }
+
+  serializeNumber(): void {
+    throw this.unsupported("number")
+  }
+
+  serializeBigInt(): void {
+    throw this.unsupported("bigint")
+  }
+
+  serializeString(): void {
+    throw this.unsupported("string")
+  }
+
+  serializeBytes(): void {
+    throw this.unsupported("bytes")
+  }
+
+  serializeDate(): void {
+    throw this.unsupported("date")
+  }
+
+  serializeSeq(): SeqSerializer {
+    throw this.unsupported("sequence")
+  }
+
+  serializeMap(len?: number): MapSerializer {
+    const map = this.inner.serializeMap(len === undefined ? undefined : len + 1)
+    map.serializeEntry(this.tag, this.variant)
+    return map
+  }
+
+  serializeStruct(name: string, len: number): StructSerializer {
+    const struct = this.inner.serializeStruct(name, len + 1)
+    struct.serializeField(this.tag, this.variant)
+    return struct
+  }
+
+  serializeOption<T>(): OptionSerializer<T> {
+    throw this.unsupported("option")
+  }
+
+  serializeNewtype(): void {
+    throw this.unsupported("newtype")
+  }
+
+  serializeEnum(): void {
+    throw this.unsupported("enum")
+  }
+}
+
+/**
+ * Serializer that writes the fields of a struct or the entries of a map into a parent
+ * struct. Anything else has no keys to merge.
+ */
+class FlatSerializer implements Serializer {
+  constructor(private parent: StructSerializer) {}
+
+  private unsupported(kind: string): SerializationError {
+    return new SerializationError(`Cannot flatten ${kind} into a struct`)
+  }
+
+  serializeNull(): void {
+    throw this.unsupported("null")
+  }
+
+  serializeBool(): void {
+    throw this.unsupported("boolean")
+  }
+
+  serializeNumber(): void {
+    throw this.unsupported("number")
+  }
+
+  serializeBigInt(): void {
+    throw this.unsupported("bigint")
+  }
+
+  serializeString(): void {
+    throw this.unsupported("string")
+  }
+
+  serializeBytes(): void {
+    throw this.unsupported("bytes")
+  }
+
+  serializeDate(): void {
+    throw this.unsupported("date")
+  }
+
+  serializeSeq(): SeqSerializer {
+    throw this.unsupported("sequence")
+  }
+
+  serializeMap(): MapSerializer {
+    const parent = this.parent
+    let pendingKey: unknown
+    return {
+      serializeEntry: (key, value) => parent.serializeField(String(key), value),
+      serializeKey: (key) => {
+        pendingKey = key
+      },
+      serializeValue: (value) => parent.serializeField(String(pendingKey), value),
+      end: () => {},
+    }
+  }
+
+  serializeStruct(): StructSerializer {
+    const parent = this.parent
+    return {
+      serializeField: (name, value) => parent.serializeField(name, value),
+      skipField: (name) => parent.skipField(name),
+      end: () => {},
+    }
+  }
+
+  serializeOption<T>(): OptionSerializer<T> {
+    throw this.unsupported("option")
+  }
+
+  serializeNewtype(): void {
+    throw this.unsupported("newtype")
+  }
+
+  serializeEnum(): void {
+    throw this.unsupported("enum")
+  }
+}
@@ -7,6 +7,7 @@
 
 import type { Deserializer } from "./deserializer.ts"
 import type { Serializer } from "./serializer.ts"
+import type { Class, TypeArgument } from "./types.ts"
 
 /**
  * Global symbols for serialization traits.
@@ -15,6 +16,31 @@ import type { Serializer } from "./serializer.ts"
 export const SERIALIZE = Symbol.for("dezer.serialize")
 export const DESERIALIZE = Symbol.for("dezer.deserialize")
 
+/**
+ * Symbol under which a generic class bound with `withTypeArguments` stores its type arguments.
+ */
+export const TYPE_ARGUMENTS = Symbol.for("dezer.typeArguments")
+
+/**
+ * Symbol marking the prototype of a transparent class, which is serialized as its single
+ * field rather than as a struct.
+ */
+export const TRANSPARENT = Symbol.for("dezer.transparent")
+
+/**
+ * Key under which the `@Field` decorator records the accessors of `#private` members in a
+ * class's decorator metadata, as generated code can't name them.
+ */
+export const PRIVATE_MEMBERS = Symbol.for("dezer.privateMembers")
+
+/**
+ * The accessors of a `#private` field or accessor, as handed to its decorator
+ */
+export interface PrivateMember {
+  get?(object: unknown): unknown
+  set?(object: unknown, value: unknown): void
+}
+
 /**
  * Trait for types that can be serialized.
  *
@@ -56,9 +82,8 @@ export function isSerializable(value: unknown): value is Serialize {
 /**
  * Type helper to check if a constructor's prototype implements Deserialize trait
  */
-export function isDeserializable<T extends Deserialize>(ctor: unknown): ctor is new (...args: any[]) => T {
-  return typeof ctor === "function" && typeof (ctor as any).prototype === "object" &&
-    DESERIALIZE in (ctor as any).prototype
+export function isDeserializable<T extends Deserialize>(ctor: unknown): ctor is Class<T> {
+  return typeof ctor === "function" && typeof ctor.prototype === "object" && DESERIALIZE in ctor.prototype
 }
 
 /**
@@ -94,7 +119,7 @@ export function serializeUnknown<S extends Serializer>(value: unknown, serialize
  * @returns The deserialized value
  */
 export function deserialize<T extends Deserialize, D extends Deserializer>(
-  ctor: new (...args: any[]) => T,
+  ctor: Class<T>,
   deserializer: D,
 ): T {
   return (ctor.prototype as T)[DESERIALIZE](deserializer)
@@ -118,3 +143,138 @@ export function deserializeUnknown<T extends Deserialize, D extends Deserializer
     throw new Error(`Constructor does not implement Deserialize trait: ${ctor}`)
   }
 }
+
+/**
+ * Bind the type arguments of a generic class for deserialization, e.g. `Page.of(User)`.
+ *
+ * The returned constructor extends the class, and its prototype carries the type arguments
+ * so the generated [DESERIALIZE] implementation can deserialize fields typed with type parameters.
+ *
+ * @param ctor The generic class
+ * @param typeArguments Constructors for each type parameter, in declaration order
+ * @returns A constructor that deserializes instances of the class with the given type arguments
+ */
+export function withTypeArguments<T>(
+  ctor: new (...args: never[]) => T,
+  typeArguments: (TypeArgument | undefined)[],
+): new (...args: never[]) => T {
+  const bound = class extends (ctor as new (...args: never[]) => object) {}
+  Object.defineProperty(bound.prototype, TYPE_ARGUMENTS, { value: typeArguments })
+  return bound as new (...args: never[]) => T
+}
+
+/**
+ * Get the type arguments bound with `withTypeArguments`, or an empty array for an unbound class
+ *
+ * @param prototype The prototype [DESERIALIZE] was called on
+ */
+export function getTypeArguments(prototype: unknown): (TypeArgument | undefined)[] {
+  return (prototype as { [TYPE_ARGUMENTS]?: (TypeArgument | undefined)[] } | undefined)?.[TYPE_ARGUMENTS] ?? []
+}
+
+/**
+ * Concrete classes of each class hierarchy with a discriminator, by base class and type id
+ */
+const subclasses = new Map<object, Map<string, Class>>()
+
+/**
+ * Register a class under its type id with itself and each of its base classes, so
+ * fields typed with any of them can deserialize its instances
+ *
+ * @param ctor The class
+ * @param typeId The value its discriminator field holds
+ */
+export function registerSubclass(ctor: Class, typeId: string): void {
+  for (let base: object = ctor; base !== Function.prototype; base = Object.getPrototypeOf(base)) {
+    let registered = subclasses.get(base)
+    if (!registered) {
+      registered = new Map()
+      subclasses.set(base, registered)
+    }
+    registered.set(typeId, ctor)
+  }
+}
+
+/**
+ * Get the classes registered with a class under their type ids
+ */
+export function getSubclasses(ctor: object): ReadonlyMap<string, Class> {
+  return subclasses.get(ctor) ?? new Map()
+}
+
+/**
+ * Record the accessors of a decorated `#private` member in its class's decorator metadata.
+ * Subclasses see the members of their base classes through the metadata prototype chain.
+ */
+export function registerPrivateMember(
+  metadata: DecoratorMetadata | undefined,
+  name: string,
+  access: PrivateMember,
+): void {
+  if (!metadata) {
+    return
+  }
+  if (!Object.hasOwn(metadata, PRIVATE_MEMBERS)) {
+    metadata[PRIVATE_MEMBERS] = Object.create((metadata[PRIVATE_MEMBERS] as object | undefined) ?? null)
+  }
+  const members = metadata[PRIVATE_MEMBERS] as Record<string, PrivateMember>
+  // A getter and setter pair is decorated as two members of the same name
+  members[name] = { ...members[name], ...normalizeAccess(access) }
+}
+
+/**
+ * Transpilers implementing the 2022-03 decorators proposal, Deno's among them, pass
+ * accessors that take the instance as `this` rather than as their first argument
+ */
+function normalizeAccess({ get, set }: PrivateMember): PrivateMember {
+  return {
+    ...(get ? { get: (object: unknown) => get.call(object, object) } : {}),
+    ...(set
+      ? {
+        set: (object: unknown, value: unknown) =>
+          set.length < 2 ? (set as (value: unknown) => void).call(object, value) : set.call(object, object, value),
+      }
+      : {}),
+  }
+}
+
+function getPrivateMember(ctor: Class, name: string): PrivateMember {
+  const metadata = (ctor as { [Symbol.metadata]?: DecoratorMetadata | null })[Symbol.metadata]
+  const member = (metadata?.[PRIVATE_MEMBERS] as Record<string, PrivateMember> | undefined)?.[name]
+  if (!member) {
+    throw new Error(`Private member ${name} of ${ctor.name} is not decorated with @Field`)
+  }
+  return member
+}
+
+/**
+ * Read a `#private` field of an instance
+ *
+ * @param object The instance
+ * @param ctor The class declaring the field, or a subclass of it
+ * @param name The field name, including the `#`
+ */
+export function getPrivateField(object: object, ctor: Class, name: string): unknown {
+  return getPrivateMember(ctor, name).get!(object)
+}
+
+/**
+ * Write the deserialized `#private` fields of an instance. Private fields only exist on
+ * instances the class's constructor created. Getter-only accessors are skipped, as they are
+ * only serialized.
+ *
+ * @param object The instance
+ * @param ctor The class declaring the fields, or a subclass of it
+ * @param values The field values, keyed by field name without the `#`
+ * @returns The instance
+ */
+export function setPrivateFields<T extends object>(
+  object: T,
+  ctor: Class,
+  values: Record<string, unknown>,
+): T {
+  for (const [name, value] of Object.entries(values)) {
+    getPrivateMember(ctor, `#${name}`).set?.(object, value)
+  }
+  return object
+}
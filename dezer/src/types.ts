@@ -1,20 +1,228 @@
-export interface FieldOptions {
+/**
+ * Formats a string field can be required to have
+ */
+export type StringFormat = "email" | "uuid" | "url"
+
+/**
+ * Constraints on a field's value, checked once its type is validated. Constraints other than
+ * `minItems` and `maxItems` apply to each element of array and set fields.
+ */
+export interface FieldConstraints {
+  /** Smallest allowed number */
+  min?: number
+  /** Largest allowed number */
+  max?: number
+  /** Require a whole number */
+  integer?: boolean
+  /** Shortest allowed string */
+  minLength?: number
+  /** Longest allowed string */
+  maxLength?: number
+  /** Regular expression strings must match */
+  pattern?: RegExp | string
+  /** The allowed values */
+  oneOf?: readonly unknown[]
+  /** Fewest allowed elements of an array, set or map */
+  minItems?: number
+  /** Most allowed elements of an array, set or map */
+  maxItems?: number
+  format?: StringFormat
+}
+
+export interface FieldOptions extends FieldConstraints {
   name?: string
+  /** Other keys accepted for the field during deserialization, e.g. legacy names */
+  aliases?: string[]
   required?: boolean
   default?: unknown
   skip?: boolean
   skipSerializing?: boolean
   skipDeserializing?: boolean
+  /**
+   * Omit the field during serialization when it is empty, equal to its default,
+   * or when the given predicate returns true for its value
+   */
+  skipIf?: "empty" | "default" | ((value: never) => boolean)
+  /**
+   * Merge the keys of a nested struct into the parent instead of nesting them under the
+   * field's name. A flattened record or map collects every key no other field matches.
+   */
+  flatten?: boolean
+  /** How `Date` values of the field are written and read (default: the format's native representation) */
+  dateFormat?: DateFormat
+  /** Function writing the field's value in place of the generated serialization */
+  serializeWith?: CustomSerializer<never>
+  /** Function reading the field's value in place of the generated validation */
+  deserializeWith?: CustomDeserializer
   customSerializer?: CustomSerializer
   customDeserializer?: CustomDeserializer
+  /** Same as `serializeWith` and `deserializeWith` */
   transform?: {
-    serialize: (value: unknown) => unknown
-    deserialize: (value: unknown) => unknown
+    serialize: CustomSerializer<never>
+    deserialize: CustomDeserializer
   }
 }
 
-export interface SerializableOptions {
+/**
+ * How a class is represented when it appears as a variant of a union of classes
+ */
+export interface UnionRepresentation {
+  /**
+   * Field holding the variant name, written alongside the variant's own fields
+   */
+  tag?: string
+  /**
+   * Field holding the variant's fields when used together with `tag`
+   */
+  content?: string
+  /**
+   * Write the variant's fields without any tag, picking the class the keys match best on deserialization
+   */
+  untagged?: boolean
+}
+
+/**
+ * Wire formats for `Date` fields: an ISO 8601 string, milliseconds or seconds since the epoch,
+ * an RFC 2822 string, or a `YYYY-MM-DD` date without a time
+ */
+export type DateFormat = "iso8601" | "epochMillis" | "epochSeconds" | "rfc2822" | "dateOnly"
+
+/**
+ * Case conventions for `renameAll`
+ */
+export type RenameRule = "camelCase" | "snake_case" | "kebab-case" | "SCREAMING_SNAKE_CASE" | "PascalCase"
+
+/**
+ * A case convention for both directions, or separate ones for serialization and deserialization
+ */
+export type RenameAll = RenameRule | { serialize?: RenameRule; deserialize?: RenameRule }
+
+export interface SerializableOptions extends UnionRepresentation {
+  /** Name of the class on the wire: its variant name in unions and its type id in class hierarchies */
   name?: string
+  /**
+   * Field holding the type id of instances of this class and its subclasses. Fields typed
+   * with the class then deserialize to the subclass the type id names.
+   */
+  discriminator?: string
+  /** Reject keys that don't match any field (or field alias) instead of ignoring them */
+  denyUnknownFields?: boolean
+  /** Case convention applied to field names without an explicit `@Field({ name })` */
+  renameAll?: RenameAll
+  /**
+   * How instances are created on deserialization. By default the prototype is instantiated
+   * without running any code. `"constructor"` calls the constructor with the fields matching
+   * its parameter names, `"factory"` calls a static `fromFields(fields)` method.
+   */
+  construct?: "constructor" | "factory"
+  /** Serialize a single-field class as its field's value, e.g. an ID wrapping a string */
+  transparent?: boolean
+}
+
+/**
+ * Options of the top-level deserialization functions of formats, e.g. `fromString`
+ */
+export interface DeserializeOptions {
+  /** Report every invalid field in a single ValidationError instead of stopping at the first */
+  collectErrors?: boolean
+}
+
+export interface EnumOptions {
+  /**
+   * Whether variants are written using the member name or the member value (default: "value")
+   */
+  serializeBy?: "name" | "value"
+  /**
+   * Case convention applied to member names when variants are written by name
+   */
+  renameAll?: RenameAll
+}
+
+export interface EnumVariant {
+  name: string
+  value: string | number
+}
+
+export interface ParsedEnum {
+  name: string
+  variants: EnumVariant[]
+  options: EnumOptions
+}
+
+export type ParsedType =
+  | { kind: "primitive"; name: string }
+  | { kind: "reference"; name: string; typeArguments?: ParsedType[]; importFrom?: ParsedImport }
+  | { kind: "typeParameter"; name: string; index: number }
+  | { kind: "array"; element: ParsedType }
+  | { kind: "tuple"; elements: ParsedTupleElement[] }
+  | { kind: "date"; format?: DateFormat }
+  | { kind: "builtin"; name: string }
+  | { kind: "nullable"; inner: ParsedType }
+  | { kind: "set"; element: ParsedType }
+  | { kind: "map"; key: ParsedType; value: ParsedType }
+  | { kind: "record"; key: ParsedType; value: ParsedType }
+  | { kind: "enum"; enum: ParsedEnum; importFrom?: ParsedImport }
+  | { kind: "union"; name: string; variants: ParsedUnionVariant[]; representation: UnionRepresentation }
+
+/**
+ * A position of a tuple type. A rest element (`...T[]`) holds the type of each remaining item.
+ */
+export interface ParsedTupleElement {
+  type: ParsedType
+  optional?: boolean
+  rest?: boolean
+}
+
+/**
+ * Where generated code imports a referenced class or enum from
+ */
+export interface ParsedImport {
+  /** The name the class is exported under, which differs from the local name for `import { A as B }` */
+  name: string
+  /** Module specifier relative to the generated file */
+  module: string
+}
+
+export interface ParsedUnionVariant {
+  name: string
+  className: string
+  importFrom?: ParsedImport
+}
+
+export interface UnionVariant {
+  name: string
+  type: Class
+}
+
+/**
+ * A class, abstract or not, whatever parameters its constructor takes
+ */
+export type Class<T = unknown> = abstract new (...args: never[]) => T
+
+/**
+ * A constructor passed as a type argument of a generic class, e.g. `User` in `Page.of(User)`.
+ * `String`, `Number`, `Boolean` and `Date` stand for the matching primitive types.
+ */
+export type TypeArgument<T = unknown> = Class<T>
+
+/**
+ * The type a type argument constructor stands for
+ */
+export type TypeArgumentValue<C> = C extends StringConstructor ? string
+  : C extends NumberConstructor ? number
+  : C extends BooleanConstructor ? boolean
+  : C extends TypeArgument<infer T> ? T
+  : unknown
+
+/**
+ * An instance under construction by generated code, which assigns `readonly` fields too
+ */
+export type Mutable<T> = { -readonly [K in keyof T]: T[K] }
+
+export interface ParsedTypeParameter {
+  name: string
+  /** The full declaration, including any constraint and default */
+  declaration: string
 }
 
 export interface ParsedClass {
@@ -22,16 +230,61 @@ export interface ParsedClass {
   filePath: string
   options: SerializableOptions
   fields: ParsedField[]
+  typeParameters?: ParsedTypeParameter[]
+  /** Constructor parameter names, for classes constructed with `construct: "constructor"` */
+  constructorParameters?: string[]
+  /** Declares `#private` members, so instances must be created by the constructor */
+  hasPrivateState?: boolean
+  /** Lifecycle hook methods of the class and its base classes */
+  hooks?: ParsedHooks
+  /** The `discriminator` option of the class or its nearest base class declaring one */
+  discriminator?: string
+  isAbstract?: boolean
+  /** The foreign class a `@SerializableRemote` mirror class describes */
+  remote?: ParsedExpression
+}
+
+/**
+ * Names of the methods decorated with each lifecycle hook, base class methods first
+ */
+export interface ParsedHooks {
+  beforeSerialize: string[]
+  afterDeserialize: string[]
+  validate: string[]
 }
 
 export interface ParsedField {
   propertyName: string
   type: string
+  typeInfo?: ParsedType
   options: FieldOptions
   isOptional: boolean
   isIgnored: boolean
+  /** Declared as `#propertyName`, and reached through the accessors `@Field` records */
+  isPrivate?: boolean
+  /** Source text of the `default` option, emitted as-is when the field is absent */
+  defaultValue?: string
+  skipIf?: ParsedSkipIf
+  /** Source text of the constraint options, e.g. `{ min: 0, integer: true }` */
+  constraints?: string
+  serializeWith?: ParsedExpression
+  deserializeWith?: ParsedExpression
 }
 
+/**
+ * The source text of a function passed to a decorator, along with the import generated
+ * code needs to reference it
+ */
+export interface ParsedExpression {
+  expression: string
+  importFrom?: ParsedImport
+}
+
+/**
+ * The `skipIf` option of a field: a built-in condition, or a predicate
+ */
+export type ParsedSkipIf = "empty" | "default" | ParsedExpression
+
 export type CustomSerializer<T = unknown> = (value: T) => unknown
 export type CustomDeserializer<T = unknown> = (value: unknown) => T
 
@@ -5,21 +5,196 @@
  * Used by generated code to validate field types at runtime.
  */
 
-import { DESERIALIZE } from "./traits.ts"
+import {
+  BaseVisitor,
+  DeserializationError,
+  type Deserializer,
+  type EnumAccess,
+  type MapAccess,
+  parseDate,
+  PrimitiveVisitor,
+  type SeqAccess,
+  type Visitor,
+} from "./deserializer.ts"
+import { DESERIALIZE, type Deserialize, getSubclasses, TRANSPARENT } from "./traits.ts"
+import type {
+  Class,
+  DateFormat,
+  EnumVariant,
+  FieldConstraints,
+  StringFormat,
+  TypeArgument,
+  UnionRepresentation,
+  UnionVariant,
+} from "./types.ts"
+
+/**
+ * A value that failed validation
+ */
+export interface ValidationIssue {
+  /** Path of the value from the top-level value, e.g. `users[2].email` */
+  path: string
+  /** What the value should have been, e.g. `string` or `at least 0` */
+  expected: string
+  /** What was found instead, e.g. `number` */
+  received: string
+  message: string
+}
 
 export class ValidationError extends Error {
-  constructor(message: string) {
+  /** The values that failed validation: one, unless issues are collected */
+  readonly issues: ValidationIssue[]
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
     super(message)
     this.name = "ValidationError"
+    this.issues = issues
+  }
+}
+
+/**
+ * Issues recorded while collecting, and the path of the nested value being deserialized
+ */
+interface ValidationScope {
+  issues: ValidationIssue[] | null
+  path: string
+}
+
+let scope: ValidationScope = { issues: null, path: "" }
+
+/**
+ * Create the error for a value that failed validation, located under the path of the nested
+ * value being deserialized
+ *
+ * @param fieldPath Path of the value within the struct being deserialized
+ * @param description Describes the failure, by default `expected <expected>, got <received>`
+ */
+function invalid(
+  fieldPath: string,
+  expected: string,
+  received: string,
+  description = `expected ${expected}, got ${received}`,
+): ValidationError {
+  const path = joinPath(scope.path, fieldPath)
+  const message = `Field '${path}' ${description}`
+  return new ValidationError(message, [{ path, expected, received, message }])
+}
+
+function joinPath(parent: string, path: string): string {
+  if (parent === "") {
+    return path
+  }
+  return path === "" || path.startsWith("[") ? `${parent}${path}` : `${parent}.${path}`
+}
+
+/**
+ * Run the deserialization of a nested value, locating the issues it reports under its path
+ */
+function withinPath<T>(fieldPath: string, deserialize: () => T): T {
+  const parent = scope.path
+  scope.path = joinPath(parent, fieldPath)
+  try {
+    return deserialize()
+  } finally {
+    scope.path = parent
   }
 }
 
+/**
+ * Deserialize while collecting every validation issue instead of stopping at the first one
+ *
+ * @param deserialize Runs the top-level deserialization
+ * @returns Its result, if no issues were recorded
+ * @throws ValidationError carrying every issue
+ */
+export function collectIssues<T>(deserialize: () => T): T {
+  const parent = scope
+  const issues: ValidationIssue[] = []
+  scope = { issues, path: "" }
+  let result: T | undefined
+  try {
+    result = deserialize()
+  } catch (error) {
+    issues.push(...toIssues(error, ""))
+  } finally {
+    scope = parent
+  }
+
+  if (issues.length > 0) {
+    throw summarizeIssues(issues)
+  }
+  return result as T
+}
+
+function summarizeIssues(issues: ValidationIssue[]): ValidationError {
+  const message = issues.length === 1
+    ? issues[0].message
+    : `${issues.length} validation errors:\n${issues.map((issue) => `  ${issue.message}`).join("\n")}`
+  return new ValidationError(message, issues)
+}
+
+/**
+ * Get the issues an error reports. Errors other than validation errors become a single issue
+ * at the path they were thrown for.
+ */
+function toIssues(error: unknown, fieldPath: string): ValidationIssue[] {
+  if (error instanceof ValidationError && error.issues.length > 0) {
+    return error.issues
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  return [{ path: joinPath(scope.path, fieldPath), expected: "", received: "", message }]
+}
+
+/**
+ * Record the error a field failed with while collecting issues, so the remaining fields are
+ * still deserialized. Otherwise the error is rethrown.
+ *
+ * @param error The error the field's deserialization threw
+ * @param fieldPath Path of the field, for errors that don't carry one
+ */
+export function recordIssue(error: unknown, fieldPath: string = ""): void {
+  if (!scope.issues) {
+    throw error
+  }
+  scope.issues.push(...toIssues(error, fieldPath))
+}
+
+/**
+ * Run a deserialization that collects its issues apart from the current scope, so a failed
+ * attempt, e.g. at a variant of an untagged union, records nothing
+ *
+ * @returns The result, and the issues the attempt failed with
+ */
+function attempt<T>(deserialize: () => T): { result?: T; issues: ValidationIssue[] } {
+  const parent = scope
+  const issues: ValidationIssue[] = []
+  scope = { issues, path: parent.path }
+  try {
+    return { result: deserialize(), issues }
+  } catch (error) {
+    issues.push(...toIssues(error, ""))
+    return { issues }
+  } finally {
+    scope = parent
+  }
+}
+
+/**
+ * Record an issue while collecting issues, or throw it as a DeserializationError otherwise
+ */
+function rejectField(fieldPath: string, expected: string, received: string, message: string): void {
+  if (!scope.issues) {
+    throw new DeserializationError(message)
+  }
+  scope.issues.push({ path: joinPath(scope.path, fieldPath), expected, received, message })
+}
+
 /**
  * Validate that a value is a string
  */
 export function validateString(value: unknown, fieldPath: string): string {
   if (typeof value !== "string") {
-    throw new ValidationError(`Field '${fieldPath}' expected string, got ${typeof value}`)
+    throw invalid(fieldPath, "string", typeof value)
   }
   return value
 }
@@ -28,45 +203,335 @@ export function validateString(value: unknown, fieldPath: string): string {
  * Validate that a value is a number
  */
 export function validateNumber(value: unknown, fieldPath: string): number {
+  // Integers beyond the safe range are read as bigint by formats that keep their precision,
+  // and a number field can only hold them without losing digits when they fit the safe range
+  if (typeof value === "bigint") {
+    if (value < BigInt(Number.MIN_SAFE_INTEGER) || value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw invalid(fieldPath, "safe integer", `${value}`)
+    }
+    return Number(value)
+  }
   if (typeof value !== "number") {
-    throw new ValidationError(`Field '${fieldPath}' expected number, got ${typeof value}`)
+    throw invalid(fieldPath, "number", typeof value)
   }
   if (isNaN(value)) {
-    throw new ValidationError(`Field '${fieldPath}' expected valid number, got NaN`)
+    throw invalid(fieldPath, "valid number", "NaN")
   }
   return value
 }
 
+/**
+ * Validate that a value is an integer, accepting bigints, safe integer numbers and integer strings
+ */
+export function validateBigInt(value: unknown, fieldPath: string): bigint {
+  if (typeof value === "bigint") {
+    return value
+  }
+  if (typeof value === "number" && Number.isSafeInteger(value)) {
+    return BigInt(value)
+  }
+  if (typeof value === "string" && /^-?\d+$/.test(value)) {
+    return BigInt(value)
+  }
+  throw invalid(fieldPath, "integer", typeof value)
+}
+
+/**
+ * Deserialize an arbitrary-precision integer with the format's deserializer, e.g. from an
+ * integer literal beyond the safe range in JSON
+ */
+export function deserializeBigIntValue(value: unknown, deserializer: Deserializer, fieldPath: string): bigint {
+  try {
+    return createDeserializer(deserializer, value).deserializeBigInt(
+      new PrimitiveVisitor("integer", (integer: bigint) => integer),
+    )
+  } catch {
+    throw invalid(fieldPath, "integer", typeof value)
+  }
+}
+
 /**
  * Validate that a value is a boolean
  */
 export function validateBoolean(value: unknown, fieldPath: string): boolean {
   if (typeof value !== "boolean") {
-    throw new ValidationError(`Field '${fieldPath}' expected boolean, got ${typeof value}`)
+    throw invalid(fieldPath, "boolean", typeof value)
   }
   return value
 }
 
 /**
- * Validate that a value is a Date object or can be converted to one
+ * Validate that a value is a Date object or can be converted to one. Dates native to the
+ * format are accepted whatever the field's date format.
+ *
+ * @param format The wire format chosen for the field, or undefined to accept any date string
  */
-export function validateDate(value: unknown, fieldPath: string): Date {
+export function validateDate(value: unknown, fieldPath: string, format?: DateFormat): Date {
   if (value instanceof Date) {
     if (isNaN(value.getTime())) {
-      throw new ValidationError(`Field '${fieldPath}' expected valid Date, got invalid Date`)
+      throw invalid(fieldPath, "valid Date", "invalid Date")
     }
     return value
   }
 
+  const date = parseDate(value, format)
+  if (date) {
+    return date
+  }
+  throw invalidDate(value, fieldPath, format)
+}
+
+/**
+ * Deserialize a date with the format's deserializer, which reads the dates native to the
+ * format and the wire format the field chose
+ *
+ * @param format The wire format chosen for the field, or undefined to accept any date string
+ */
+export function deserializeDateValue(
+  value: unknown,
+  deserializer: Deserializer,
+  fieldPath: string,
+  format?: DateFormat,
+): Date {
+  try {
+    return createDeserializer(deserializer, value).deserializeDate(
+      new PrimitiveVisitor("date", (date: Date) => date),
+      format,
+    )
+  } catch {
+    throw invalidDate(value, fieldPath, format)
+  }
+}
+
+function invalidDate(value: unknown, fieldPath: string, format: DateFormat | undefined): ValidationError {
+  if (format) {
+    const found = typeof value === "string" ? `"${value}"` : typeof value
+    return invalid(fieldPath, DATE_FORMATS[format], found)
+  }
   if (typeof value === "string") {
-    const date = new Date(value)
-    if (isNaN(date.getTime())) {
-      throw new ValidationError(`Field '${fieldPath}' expected valid date string, got invalid date: ${value}`)
+    return invalid(fieldPath, "valid date string", `invalid date: ${value}`)
+  }
+  return invalid(fieldPath, "Date or date string", typeof value)
+}
+
+const DATE_FORMATS: Record<DateFormat, string> = {
+  iso8601: "ISO 8601 date string",
+  epochMillis: "epoch milliseconds",
+  epochSeconds: "epoch seconds",
+  rfc2822: "RFC 2822 date string",
+  dateOnly: "YYYY-MM-DD date string",
+}
+
+/**
+ * Validate that a value is a URL or an absolute URL string
+ */
+export function validateURL(value: unknown, fieldPath: string): URL {
+  if (value instanceof URL) {
+    return value
+  }
+  if (typeof value === "string" && URL.canParse(value)) {
+    return new URL(value)
+  }
+  throw invalid(fieldPath, "URL", typeof value)
+}
+
+const STRING_FORMATS: Record<StringFormat, { description: string; test: (value: string) => boolean }> = {
+  email: { description: "email address", test: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) },
+  uuid: {
+    description: "UUID",
+    test: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  },
+  url: { description: "URL", test: (value) => URL.canParse(value) },
+}
+
+/**
+ * Check the constraints declared on a field against its validated value. Absent values pass.
+ *
+ * @param value The value, already validated as the field's type
+ * @param fieldPath Path of the field, extended with the index of each checked element
+ * @param constraints The constraints from the field's options
+ * @returns The value
+ * @throws ValidationError naming the field and the violated constraint
+ */
+export function validateConstraints<T>(value: T, fieldPath: string, constraints: FieldConstraints): T {
+  if (value === null || value === undefined) {
+    return value
+  }
+
+  if (Array.isArray(value) || value instanceof Set || value instanceof Map) {
+    const size = Array.isArray(value) ? value.length : value.size
+    const { minItems, maxItems, ...elementConstraints } = constraints
+    if (minItems !== undefined && size < minItems) {
+      throw invalid(
+        fieldPath,
+        `at least ${minItems} items`,
+        String(size),
+        `must have at least ${minItems} items, got ${size}`,
+      )
     }
-    return date
+    if (maxItems !== undefined && size > maxItems) {
+      throw invalid(
+        fieldPath,
+        `at most ${maxItems} items`,
+        String(size),
+        `must have at most ${maxItems} items, got ${size}`,
+      )
+    }
+    if (!(value instanceof Map)) {
+      let index = 0
+      for (const element of value) {
+        validateConstraints(element, `${fieldPath}[${index++}]`, elementConstraints)
+      }
+    }
+    return value
+  }
+
+  const { min, max, integer, minLength, maxLength, pattern, oneOf, format } = constraints
+  if (typeof value === "number" || typeof value === "bigint") {
+    if (min !== undefined && value < min) {
+      throw invalid(fieldPath, `at least ${min}`, String(value), `must be at least ${min}, got ${value}`)
+    }
+    if (max !== undefined && value > max) {
+      throw invalid(fieldPath, `at most ${max}`, String(value), `must be at most ${max}, got ${value}`)
+    }
+    if (integer && typeof value === "number" && !Number.isInteger(value)) {
+      throw invalid(fieldPath, "integer", String(value), `must be an integer, got ${value}`)
+    }
+  }
+  if (typeof value === "string") {
+    if (minLength !== undefined && value.length < minLength) {
+      throw invalid(
+        fieldPath,
+        `at least ${minLength} characters`,
+        String(value.length),
+        `must be at least ${minLength} characters long, got ${value.length}`,
+      )
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      throw invalid(
+        fieldPath,
+        `at most ${maxLength} characters`,
+        String(value.length),
+        `must be at most ${maxLength} characters long, got ${value.length}`,
+      )
+    }
+    if (pattern !== undefined && !new RegExp(pattern).test(value)) {
+      throw invalid(
+        fieldPath,
+        `${new RegExp(pattern)}`,
+        JSON.stringify(value),
+        `must match ${new RegExp(pattern)}, got ${JSON.stringify(value)}`,
+      )
+    }
+    if (format !== undefined && !STRING_FORMATS[format].test(value)) {
+      const { description } = STRING_FORMATS[format]
+      throw invalid(
+        fieldPath,
+        description,
+        JSON.stringify(value),
+        `must be a valid ${description}, got ${JSON.stringify(value)}`,
+      )
+    }
+  }
+  if (oneOf !== undefined && !oneOf.includes(value)) {
+    const expected = oneOf.map((option) => JSON.stringify(option)).join(", ")
+    throw invalid(
+      fieldPath,
+      `one of ${expected}`,
+      JSON.stringify(value),
+      `must be one of ${expected}, got ${JSON.stringify(value)}`,
+    )
+  }
+  return value
+}
+
+/**
+ * Validate that a value is a RegExp or a regular expression literal string like `/^a+$/i`
+ */
+export function validateRegExp(value: unknown, fieldPath: string): RegExp {
+  if (value instanceof RegExp) {
+    return value
+  }
+  const match = typeof value === "string" ? /^\/(.*)\/([a-z]*)$/s.exec(value) : null
+  if (match) {
+    try {
+      return new RegExp(match[1], match[2])
+    } catch {
+      // Reported below
+    }
+  }
+  throw invalid(fieldPath, "regular expression", typeof value)
+}
+
+/**
+ * A Temporal type, e.g. `Temporal.Instant`, read from its ISO 8601 string
+ */
+export interface TemporalType<T> {
+  name: string
+  from(item: unknown): T
+}
+
+/**
+ * Validate that a value is an instance of a Temporal type or a string it can be read from
+ *
+ * @param type The Temporal type, e.g. `Temporal.PlainDate`
+ */
+export function validateTemporal<T>(value: unknown, type: TemporalType<T>, fieldPath: string): T {
+  if (typeof value === "string" || (typeof value === "object" && value !== null)) {
+    try {
+      return type.from(value)
+    } catch {
+      // Reported below
+    }
+  }
+  throw invalid(fieldPath, `Temporal.${type.name}`, typeof value)
+}
+
+/**
+ * Validate raw bytes, decoding them with the format's deserializer, e.g. from base64 in JSON.
+ * Arrays of numbers are accepted too.
+ */
+export function validateBytes(value: unknown, deserializer: Deserializer, fieldPath: string): Uint8Array {
+  if (value instanceof Uint8Array) {
+    return value
   }
+  if (Array.isArray(value)) {
+    return validateTypedArray(value, Uint8Array, fieldPath)
+  }
+  try {
+    return createDeserializer(deserializer, value).deserializeBytes(
+      new PrimitiveVisitor("bytes", (bytes: Uint8Array) => bytes),
+    )
+  } catch {
+    throw invalid(fieldPath, "bytes", typeof value)
+  }
+}
 
-  throw new ValidationError(`Field '${fieldPath}' expected Date or date string, got ${typeof value}`)
+/**
+ * A typed array constructor, e.g. `Float32Array`
+ */
+export interface TypedArrayConstructor<T> {
+  new (length: number): T
+  from(values: (number | bigint)[]): T
+}
+
+/**
+ * Validate a typed array, or an array of numbers (bigints for `BigInt64Array`/`BigUint64Array`)
+ * to build one from
+ *
+ * @param type The typed array constructor
+ */
+export function validateTypedArray<T>(value: unknown, type: TypedArrayConstructor<T>, fieldPath: string): T {
+  if (value instanceof type) {
+    return value
+  }
+  const array = validateArray(value, fieldPath)
+  const isBigIntArray = (type as unknown) === BigInt64Array || (type as unknown) === BigUint64Array
+  return type.from(
+    array.map((element, i) =>
+      isBigIntArray ? validateBigInt(element, `${fieldPath}[${i}]`) : validateNumber(element, `${fieldPath}[${i}]`)
+    ),
+  )
 }
 
 /**
@@ -74,17 +539,41 @@ export function validateDate(value: unknown, fieldPath: string): Date {
  */
 export function validateArray(value: unknown, fieldPath: string): unknown[] {
   if (!Array.isArray(value)) {
-    throw new ValidationError(`Field '${fieldPath}' expected array, got ${typeof value}`)
+    throw invalid(fieldPath, "array", typeof value)
   }
   return value
 }
 
+/**
+ * Validate that a value is an array with a tuple's number of elements
+ *
+ * @param minLength The number of required elements
+ * @param maxLength The number of elements including optional ones, or undefined for tuples with a rest element
+ */
+export function validateTuple(
+  value: unknown,
+  minLength: number,
+  maxLength: number | undefined,
+  fieldPath: string,
+): unknown[] {
+  const array = validateArray(value, fieldPath)
+  if (array.length < minLength || (maxLength !== undefined && array.length > maxLength)) {
+    const expected = maxLength === undefined
+      ? `at least ${minLength}`
+      : minLength === maxLength
+      ? `${minLength}`
+      : `${minLength} to ${maxLength}`
+    throw invalid(fieldPath, `tuple of ${expected} elements`, String(array.length))
+  }
+  return array
+}
+
 /**
  * Validate that a value is an object (not null, not array)
  */
 export function validateObject(value: unknown, fieldPath: string): Record<string, unknown> {
   if (typeof value !== "object" || value === null || Array.isArray(value)) {
-    throw new ValidationError(`Field '${fieldPath}' expected object, got ${typeof value}`)
+    throw invalid(fieldPath, "object", typeof value)
   }
   return value as Record<string, unknown>
 }
@@ -96,7 +585,7 @@ export function validateStringArray(value: unknown, fieldPath: string): string[]
   const array = validateArray(value, fieldPath)
   for (let i = 0; i < array.length; i++) {
     if (typeof array[i] !== "string") {
-      throw new ValidationError(`Field '${fieldPath}[${i}]' expected string, got ${typeof array[i]}`)
+      throw invalid(`${fieldPath}[${i}]`, "string", typeof array[i])
     }
   }
   return array as string[]
@@ -106,16 +595,7 @@ export function validateStringArray(value: unknown, fieldPath: string): string[]
  * Validate an array of numbers
  */
 export function validateNumberArray(value: unknown, fieldPath: string): number[] {
-  const array = validateArray(value, fieldPath)
-  for (let i = 0; i < array.length; i++) {
-    if (typeof array[i] !== "number") {
-      throw new ValidationError(`Field '${fieldPath}[${i}]' expected number, got ${typeof array[i]}`)
-    }
-    if (isNaN(array[i] as number)) {
-      throw new ValidationError(`Field '${fieldPath}[${i}]' expected valid number, got NaN`)
-    }
-  }
-  return array as number[]
+  return validateArray(value, fieldPath).map((item, i) => validateNumber(item, `${fieldPath}[${i}]`))
 }
 
 /**
@@ -125,7 +605,7 @@ export function validateBooleanArray(value: unknown, fieldPath: string): boolean
   const array = validateArray(value, fieldPath)
   for (let i = 0; i < array.length; i++) {
     if (typeof array[i] !== "boolean") {
-      throw new ValidationError(`Field '${fieldPath}[${i}]' expected boolean, got ${typeof array[i]}`)
+      throw invalid(`${fieldPath}[${i}]`, "boolean", typeof array[i])
     }
   }
   return array as boolean[]
@@ -138,24 +618,52 @@ export function validateObjectArray(value: unknown, fieldPath: string): Record<s
   const array = validateArray(value, fieldPath)
   for (let i = 0; i < array.length; i++) {
     if (typeof array[i] !== "object" || array[i] === null || Array.isArray(array[i])) {
-      throw new ValidationError(`Field '${fieldPath}[${i}]' expected object, got ${typeof array[i]}`)
+      throw invalid(`${fieldPath}[${i}]`, "object", typeof array[i])
     }
   }
   return array as Record<string, unknown>[]
 }
 
 /**
- * Deserialize a nested object using the current deserializer
+ * Deserialize a nested object using the current deserializer. The result has the type of
+ * what it's assigned to, as classes bound with `withTypeArguments` only have their type
+ * arguments at runtime.
+ */
+export function deserializeNestedObject<T>(
+  value: unknown,
+  ctor: Class,
+  deserializer: Deserializer,
+  fieldPath: string,
+): T {
+  // Create a new deserializer for the nested object value
+  return deserializeNestedWith(value, ctor, createDeserializer(deserializer, value), fieldPath)
+}
+
+/**
+ * Create a deserializer of the same format as `deserializer` for a nested value
+ */
+function createDeserializer(deserializer: Deserializer, value: unknown): Deserializer {
+  return new (deserializer.constructor as new (value: unknown) => Deserializer)(value)
+}
+
+/**
+ * Deserialize a nested object with a deserializer already holding its value
  */
-export function deserializeNestedObject(value: unknown, ctor: any, deserializer: any, fieldPath: string): any {
-  validateObject(value, fieldPath)
+function deserializeNestedWith<T>(
+  value: unknown,
+  ctor: Class,
+  nestedDeserializer: Deserializer,
+  fieldPath: string,
+): T {
+  // Transparent classes validate their single field themselves
+  if (!ctor.prototype?.[TRANSPARENT]) {
+    validateObject(value, fieldPath)
+  }
 
   // Check if the constructor has a DESERIALIZE method
-  if (ctor.prototype && (ctor.prototype as any)[DESERIALIZE]) {
-    // Create a new deserializer for the nested object value
-    // We need to reconstruct the deserializer with the nested value
-    const nestedDeserializer = new (deserializer.constructor)(value)
-    return (ctor.prototype as any)[DESERIALIZE].call({}, nestedDeserializer)
+  const prototype = ctor.prototype as Partial<Deserialize> | undefined
+  if (prototype?.[DESERIALIZE]) {
+    return withinPath(fieldPath, () => prototype[DESERIALIZE]!(nestedDeserializer) as T)
   }
 
   // Fallback: create an instance and copy properties
@@ -165,12 +673,223 @@ export function deserializeNestedObject(value: unknown, ctor: any, deserializer:
   return instance
 }
 
+/**
+ * Deserialize a nullable value through the format's `deserializeOption`, which decides what
+ * represents none
+ *
+ * @param value The field value
+ * @param deserializer The deserializer the field value was read with
+ * @param some Deserializes a present value as the inner type
+ * @returns null for none, otherwise the result of `some`
+ */
+export function deserializeNullable<T>(
+  value: unknown,
+  deserializer: Deserializer,
+  some: (value: unknown) => T,
+): T | null {
+  return createDeserializer(deserializer, value).deserializeOption(new OptionVisitor(value, some))
+}
+
+/**
+ * Visitor for `deserializeOption`, handing any present value to the deserialization of the inner type
+ */
+class OptionVisitor<T> extends BaseVisitor<T | null> {
+  constructor(private value: unknown, private some: (value: unknown) => T) {
+    super()
+  }
+
+  expecting(): string {
+    return "optional value"
+  }
+
+  override visitNull(): T | null {
+    return null
+  }
+
+  override visitBool(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitNumber(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitBigInt(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitString(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitBytes(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitDate(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitSeq(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitMap(): T | null {
+    return this.some(this.value)
+  }
+
+  override visitEnum(): T | null {
+    return this.some(this.value)
+  }
+}
+
+/**
+ * Read the value a transparent class wraps, as the plain data the deserializer holds
+ */
+export function deserializeNewtype(deserializer: Deserializer): unknown {
+  return deserializer.deserializeAny(new PlainValueVisitor())
+}
+
+/**
+ * Visitor rebuilding plain data from whatever it visits, for validation by generated code
+ */
+class PlainValueVisitor extends BaseVisitor<unknown> {
+  expecting(): string {
+    return "any value"
+  }
+
+  override visitNull(): unknown {
+    return null
+  }
+
+  override visitBool(v: boolean): unknown {
+    return v
+  }
+
+  override visitNumber(v: number): unknown {
+    return v
+  }
+
+  override visitBigInt(v: bigint): unknown {
+    return v
+  }
+
+  override visitString(v: string): unknown {
+    return v
+  }
+
+  override visitBytes(v: Uint8Array): unknown {
+    return v
+  }
+
+  override visitDate(v: Date): unknown {
+    return v
+  }
+
+  override visitSeq(seq: SeqAccess): unknown {
+    const elements: unknown[] = []
+    let element
+    while ((element = seq.nextElement()) !== undefined) {
+      elements.push(element)
+    }
+    return elements
+  }
+
+  override visitMap(map: MapAccess): unknown {
+    const object: Record<string, unknown> = {}
+    let entry
+    while ((entry = map.nextEntry()) !== undefined) {
+      const [key, value] = entry
+      object[String(key)] = value
+    }
+    return object
+  }
+}
+
+/**
+ * Deserialize a flattened field from the keys its parent struct didn't match. The keys of
+ * the fields the nested struct declares are removed from `entries`, leaving the rest for
+ * other flattened fields or a catch-all record.
+ *
+ * @param knownKeys Collects the keys of the nested struct's fields, for rejecting the rest
+ */
+export function deserializeFlattened<T>(
+  entries: Record<string, unknown>,
+  ctor: Class,
+  deserializer: Deserializer,
+  fieldPath: string,
+  knownKeys: string[] = [],
+): T {
+  const consumed: string[] = []
+  const recording = recordStructFields(createDeserializer(deserializer, entries), consumed)
+
+  const prototype = ctor.prototype as Partial<Deserialize> | undefined
+  if (!prototype?.[DESERIALIZE]) {
+    throw invalid(
+      fieldPath,
+      "deserializable struct",
+      ctor.name,
+      `can't be flattened: ${ctor.name} is not deserializable`,
+    )
+  }
+  const result = prototype[DESERIALIZE](recording) as T
+  for (const key of consumed) {
+    delete entries[key]
+  }
+  knownKeys.push(...consumed)
+  return result
+}
+
+/**
+ * Wrap a deserializer to collect the field names of the structs deserialized with it
+ */
+function recordStructFields(deserializer: Deserializer, fields: string[]): Deserializer {
+  return Object.create(deserializer, {
+    deserializeStruct: {
+      value: (name: string, structFields: string[], visitor: Visitor<unknown>) => {
+        fields.push(...structFields)
+        return deserializer.deserializeStruct(name, structFields, visitor)
+      },
+    },
+  })
+}
+
+/**
+ * Reject a key that no field of a struct with `denyUnknownFields` matched
+ *
+ * @param key The unknown key
+ * @param name The struct name
+ * @param knownKeys The keys of the struct's fields, including those of flattened structs
+ * @throws DeserializationError listing the known keys, unless issues are collected
+ */
+export function rejectUnknownField(key: unknown, name: string, knownKeys: string[]): void {
+  const expected = `one of ${knownKeys.map((knownKey) => `"${knownKey}"`).join(", ")}`
+  const message = `Unknown field '${String(key)}' in struct ${name}, expected ${expected}`
+  rejectField(String(key), expected, "unknown field", message)
+}
+
+/**
+ * Reject a struct missing a required field
+ *
+ * @param key The key of the field
+ * @param name The struct name
+ * @throws DeserializationError, unless issues are collected
+ */
+export function rejectMissingField(key: string, name: string): void {
+  rejectField(key, "required field", "nothing", `Missing required field '${key}' in struct ${name}`)
+}
+
 /**
  * Deserialize an array of objects by validating and deserializing each element
  */
-export function deserializeObjectArray(value: unknown, ctor: any, deserializer: any, fieldPath: string): any[] {
+export function deserializeObjectArray<T>(
+  value: unknown,
+  ctor: Class,
+  deserializer: Deserializer,
+  fieldPath: string,
+): T[] {
   const array = validateArray(value, fieldPath)
-  const result: any[] = []
+  const result: T[] = []
 
   for (let i = 0; i < array.length; i++) {
     const elementFieldPath = `${fieldPath}[${i}]`
@@ -181,40 +900,339 @@ export function deserializeObjectArray(value: unknown, ctor: any, deserializer:
 }
 
 /**
- * Generate validation code for a given type
+ * Deserialize a value typed with a class type parameter, using the type argument
+ * bound at call time. Without a type argument the value is left as-is.
  */
-export function generateValidationCode(type: string, valueExpression: string, fieldPath: string): string {
-  // Handle array types
-  if (type.endsWith("[]")) {
-    const elementType = type.slice(0, -2)
+export function deserializeTypeArgument<T>(
+  value: unknown,
+  typeArgument: TypeArgument | undefined,
+  deserializer: Deserializer,
+  fieldPath: string,
+): T {
+  switch (typeArgument) {
+    case undefined:
+      return value as T
+    case String:
+      return validateString(value, fieldPath) as T
+    case Number:
+      return validateNumber(value, fieldPath) as T
+    case Boolean:
+      return validateBoolean(value, fieldPath) as T
+    case Date:
+      return deserializeDateValue(value, deserializer, fieldPath) as T
+    default:
+      return deserializeNestedObject(value, typeArgument, deserializer, fieldPath)
+  }
+}
 
-    switch (elementType) {
-      case "string":
-        return `validateStringArray(${valueExpression}, "${fieldPath}")`
-      case "number":
-        return `validateNumberArray(${valueExpression}, "${fieldPath}")`
-      case "boolean":
-        return `validateBooleanArray(${valueExpression}, "${fieldPath}")`
-      default:
-        // For complex object arrays, validate the array structure
-        // The actual object validation happens during deserialization
-        return `validateObjectArray(${valueExpression}, "${fieldPath}")`
+/**
+ * Visitor that resolves a unit enum variant to its runtime value
+ */
+class EnumVariantVisitor extends BaseVisitor<string | number> {
+  constructor(
+    private name: string,
+    private variants: EnumVariant[],
+    private serializeBy: "name" | "value",
+    private fieldPath: string,
+  ) {
+    super()
+  }
+
+  expecting(): string {
+    return `enum ${this.name}`
+  }
+
+  override visitEnum(data: EnumAccess): string | number {
+    const [key, content] = data.variant()
+    const variant = this.variants.find((v) => (this.serializeBy === "name" ? v.name : v.value) === key)
+    if (!variant || content !== undefined) {
+      throw invalid(this.fieldPath, `one of ${this.expectedVariants()}`, JSON.stringify(key))
     }
+    return variant.value
   }
 
-  // Handle primitive types
-  switch (type) {
-    case "string":
-      return `validateString(${valueExpression}, "${fieldPath}")`
-    case "number":
-      return `validateNumber(${valueExpression}, "${fieldPath}")`
-    case "boolean":
-      return `validateBoolean(${valueExpression}, "${fieldPath}")`
-    case "Date":
-      return `validateDate(${valueExpression}, "${fieldPath}")`
-    default:
-      // For complex objects, just validate it's an object
-      // The actual type validation happens during deserialization
-      return `validateObject(${valueExpression}, "${fieldPath}")`
+  expectedVariants(): string {
+    return this.variants.map((v) => JSON.stringify(this.serializeBy === "name" ? v.name : v.value)).join(", ")
+  }
+}
+
+/**
+ * Deserialize a unit enum value, validating that it is one of the declared variants
+ */
+export function deserializeEnumValue<T>(
+  value: unknown,
+  name: string,
+  variants: EnumVariant[],
+  serializeBy: "name" | "value",
+  deserializer: Deserializer,
+  fieldPath: string,
+): T {
+  const visitor = new EnumVariantVisitor(name, variants, serializeBy, fieldPath)
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw invalid(fieldPath, `one of ${visitor.expectedVariants()}`, typeof value)
+  }
+
+  const keys = variants.map((v) => serializeBy === "name" ? v.name : v.value)
+  return createDeserializer(deserializer, value).deserializeEnum(name, keys, visitor) as T
+}
+
+/**
+ * Deserialize a map key as one of an enum's declared variants. Keys arrive as strings
+ * in text formats, so number variants are matched by their string form.
+ */
+export function deserializeEnumKey<T>(
+  key: unknown,
+  name: string,
+  variants: EnumVariant[],
+  serializeBy: "name" | "value",
+  fieldPath: string,
+): T {
+  const variant = variants.find((v) => String(serializeBy === "name" ? v.name : v.value) === String(key))
+  if (!variant) {
+    const expected = variants.map((v) => JSON.stringify(serializeBy === "name" ? v.name : v.value)).join(", ")
+    throw invalid(fieldPath, `key to be a variant of ${name} (${expected})`, JSON.stringify(key))
+  }
+  return variant.value as T
+}
+
+/**
+ * Validate a map key as a number, accepting the numeric strings text formats use for keys
+ */
+export function validateNumberKey(key: unknown, fieldPath: string): number {
+  const number = typeof key === "string" && key.trim() !== "" ? Number(key) : key
+  if (typeof number !== "number" || isNaN(number)) {
+    throw invalid(fieldPath, "numeric key", JSON.stringify(key))
+  }
+  return number
+}
+
+/**
+ * Visitor that resolves an externally tagged union variant, e.g. `{ "Circle": { ... } }`
+ */
+class UnionVariantVisitor extends BaseVisitor<unknown> {
+  constructor(
+    private name: string,
+    private variants: UnionVariant[],
+    private deserializer: Deserializer,
+    private fieldPath: string,
+  ) {
+    super()
+  }
+
+  expecting(): string {
+    return `variant of ${this.name}`
+  }
+
+  override visitEnum(data: EnumAccess): unknown {
+    const [key, content] = data.variant()
+    const variant = findUnionVariant(this.variants, key, this.fieldPath)
+    return deserializeNestedObject(content, variant.type, this.deserializer, this.fieldPath)
+  }
+}
+
+/**
+ * Visitor that resolves an internally (`{ "type": "Circle", ... }`) or adjacently
+ * (`{ "type": "Circle", "data": { ... } }`) tagged union variant
+ */
+class TaggedUnionVisitor extends BaseVisitor<unknown> {
+  constructor(
+    private name: string,
+    private variants: UnionVariant[],
+    private representation: UnionRepresentation,
+    private deserializer: Deserializer,
+    private fieldPath: string,
+  ) {
+    super()
+  }
+
+  expecting(): string {
+    return `variant of ${this.name}`
+  }
+
+  override visitMap(map: MapAccess): unknown {
+    const tag = this.representation.tag!
+    const fields: Record<string, unknown> = {}
+    let entry
+    while ((entry = map.nextEntry<string, unknown>()) !== undefined) {
+      fields[entry[0]] = entry[1]
+    }
+
+    if (!(tag in fields)) {
+      throw invalid(this.fieldPath, `tag '${tag}'`, "no tag", `is missing tag '${tag}'`)
+    }
+    const { [tag]: key, ...rest } = fields
+    const variant = findUnionVariant(this.variants, key, `${this.fieldPath}.${tag}`)
+
+    if (this.representation.content) {
+      const content = this.representation.content
+      if (!(content in rest)) {
+        throw invalid(this.fieldPath, `content '${content}'`, "no content", `is missing content '${content}'`)
+      }
+      return deserializeNestedObject(rest[content], variant.type, this.deserializer, this.fieldPath)
+    }
+    return deserializeNestedObject(rest, variant.type, this.deserializer, this.fieldPath)
+  }
+}
+
+function findUnionVariant(variants: UnionVariant[], key: unknown, fieldPath: string): UnionVariant {
+  const variant = variants.find((v) => v.name === key)
+  if (!variant) {
+    const expected = variants.map((v) => JSON.stringify(v.name)).join(", ")
+    throw invalid(fieldPath, `one of ${expected}`, JSON.stringify(key))
+  }
+  return variant
+}
+
+/**
+ * Deserialize a value as one of the classes in a union, dispatching on the
+ * variant name according to the union's representation
+ */
+export function deserializeUnionValue<T>(
+  value: unknown,
+  name: string,
+  variants: UnionVariant[],
+  representation: UnionRepresentation,
+  deserializer: Deserializer,
+  fieldPath: string,
+): T {
+  if (representation.untagged) {
+    return deserializeUntagged(value, name, variants, deserializer, fieldPath) as T
+  }
+
+  const nestedDeserializer = createDeserializer(deserializer, value)
+  if (representation.tag) {
+    validateObject(value, fieldPath)
+    return nestedDeserializer.deserializeMap(
+      new TaggedUnionVisitor(name, variants, representation, deserializer, fieldPath),
+    ) as T
+  }
+  return nestedDeserializer.deserializeEnum(
+    name,
+    variants.map((v) => v.name),
+    new UnionVariantVisitor(name, variants, deserializer, fieldPath),
+  ) as T
+}
+
+/**
+ * Deserialize a value as the variant of an untagged union its keys match best. Every variant
+ * is tried, and of those accepting the value, the one with the fewest unknown keys wins, then
+ * the one with the fewest absent fields, then the first declared. Fields aren't required by
+ * default, so the first variant alone would accept most objects.
+ */
+function deserializeUntagged(
+  value: unknown,
+  name: string,
+  variants: UnionVariant[],
+  deserializer: Deserializer,
+  fieldPath: string,
+): unknown {
+  const keys = value !== null && typeof value === "object" && !Array.isArray(value) ? Object.keys(value) : []
+  const failures: ValidationIssue[] = []
+  let best: { result: unknown; unknownKeys: number; absentFields: number } | undefined
+
+  for (const variant of variants) {
+    const fields: string[] = []
+    const nestedDeserializer = recordStructFields(createDeserializer(deserializer, value), fields)
+    const { result, issues } = attempt(() => deserializeNestedWith(value, variant.type, nestedDeserializer, fieldPath))
+    if (issues.length > 0) {
+      failures.push(...issues)
+      continue
+    }
+
+    // Variants that aren't structs, e.g. transparent classes, have no keys to compare
+    const unknownKeys = fields.length > 0 ? keys.filter((key) => !fields.includes(key)).length : 0
+    const absentFields = fields.filter((field) => !keys.includes(field)).length
+    if (
+      !best || unknownKeys < best.unknownKeys ||
+      (unknownKeys === best.unknownKeys && absentFields < best.absentFields)
+    ) {
+      best = { result, unknownKeys, absentFields }
+    }
+  }
+
+  if (best) {
+    return best.result
   }
+  scope.issues?.push(...failures)
+  throw invalid(fieldPath, `variant of ${name}`, typeof value, `did not match any variant of ${name}`)
+}
+
+/**
+ * Call the `@AfterDeserialize` methods of a deserialized instance, then its `@Validate`
+ * methods. A validation method fails by throwing, or by returning `false` or a message.
+ *
+ * @param instance The deserialized instance
+ * @param name The struct name
+ * @param afterDeserialize The `@AfterDeserialize` method names, base class methods first
+ * @param validate The `@Validate` method names, base class methods first
+ * @returns The instance
+ * @throws DeserializationError naming the struct and method if a hook fails
+ */
+export function runDeserializeHooks<T extends object>(
+  instance: T,
+  name: string,
+  afterDeserialize: string[],
+  validate: string[] = [],
+): T {
+  const fail = (method: string, message: string, cause?: Error) => {
+    throw new DeserializationError(`Error in ${method}() of struct ${name}: ${message}`, cause)
+  }
+
+  for (const method of [...afterDeserialize, ...validate]) {
+    let result: unknown
+    try {
+      result = (instance as Record<string, () => unknown>)[method]()
+    } catch (error) {
+      fail(method, error instanceof Error ? error.message : String(error), error as Error)
+    }
+    if (validate.includes(method) && (result === false || typeof result === "string")) {
+      fail(method, typeof result === "string" ? result : "validation failed")
+    }
+  }
+  return instance
+}
+
+/**
+ * Deserialize an instance of a class with a discriminator as the registered subclass its
+ * type id names. Classes without registered subclasses may omit the type id, but a type id
+ * naming another class is rejected.
+ *
+ * @param deserializer The deserializer holding the value
+ * @param ctor The class the value is deserialized as
+ * @param discriminator The field holding the type id
+ * @param deserializeOwn Deserializes the value as `ctor` itself
+ * @throws DeserializationError if the type id is missing or doesn't name a registered class
+ */
+export function deserializeSubclass<T>(
+  deserializer: Deserializer,
+  ctor: Class<T>,
+  discriminator: string,
+  deserializeOwn: (deserializer: Deserializer) => T,
+): T {
+  const registered = getSubclasses(ctor)
+  if (registered.size === 0) {
+    return deserializeOwn(deserializer)
+  }
+
+  const fields = deserializer.deserializeMap(new PlainValueVisitor()) as Record<string, unknown>
+  if (!(discriminator in fields)) {
+    // A class without subclasses is known without its type id
+    if ([...registered.values()].every((subclass) => subclass === ctor)) {
+      return deserializeOwn(createDeserializer(deserializer, fields))
+    }
+    throw new DeserializationError(`Missing type id '${discriminator}' for ${ctor.name}`)
+  }
+  const typeId = fields[discriminator]
+  const subclass = typeof typeId === "string" ? registered.get(typeId) : undefined
+  if (!subclass) {
+    const expected = [...registered.keys()].map((id) => JSON.stringify(id)).join(", ")
+    throw new DeserializationError(
+      `Unknown type id ${JSON.stringify(typeId)} for ${ctor.name}, expected one of ${expected}`,
+    )
+  }
+
+  const nestedDeserializer = createDeserializer(deserializer, fields)
+  return subclass === ctor
+    ? deserializeOwn(nestedDeserializer)
+    : (subclass.prototype as Deserialize)[DESERIALIZE](nestedDeserializer) as T
 }
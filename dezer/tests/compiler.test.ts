@@ -1,6 +1,86 @@
 import { assertEquals } from "@std/assert"
 import { parseSourceFile } from "../src/compiler/parser.ts"
-import { generateSerializationCode } from "../src/compiler/generator.ts"
+import { generateAugmentationFile, generateSerializationCode } from "../src/compiler/generator.ts"
+import { applyRenameRule } from "../src/compiler/case.ts"
+import { getOutputPath, processFile } from "../src/compiler/utils.ts"
+import { fromString, toString } from "../../dezer-json/mod.ts"
+import { fromYaml, toYaml } from "../../dezer-yaml/mod.ts"
+import type { Deserialize, Serialize, ValidationError } from "../mod.ts"
+import { SERIALIZE } from "../mod.ts"
+
+/**
+ * An instance of a compiled fixture class, whose fields the tests read without declaring them
+ */
+type FixtureValue = Serialize & Deserialize & { readonly [field: string]: FixtureValue }
+
+/**
+ * The decorators fixtures can use without importing them
+ */
+const FIXTURE_DECORATORS = [
+  "AfterDeserialize",
+  "BeforeSerialize",
+  "Custom",
+  "Field",
+  "Ignore",
+  "Serializable",
+  "SerializableEnum",
+  "SerializableRemote",
+  "Validate",
+]
+
+/**
+ * Generate the serialization code of a model and the modules it imports, and load them all,
+ * so tests can run the generated code
+ *
+ * @param source The model, which can use the decorators without importing them
+ * @param modules Other modules by file name, which the model can import relatively
+ * @returns The exports of the model
+ */
+async function compileFixture(
+  source: string,
+  modules: Record<string, string> = {},
+): Promise<Record<string, new () => FixtureValue>> {
+  const core = JSON.stringify(new URL("../mod.ts", import.meta.url).href)
+  const directory = await Deno.makeTempDir()
+  try {
+    const files = Object.entries({ ...modules, "model.ts": source }).map(([name, content]) => [
+      `${directory}/${name}`,
+      `import { ${FIXTURE_DECORATORS.join(", ")} } from ${core}\n${content}`,
+    ])
+    for (const [filePath, content] of files) {
+      await Deno.writeTextFile(filePath, content)
+    }
+
+    const generatedFiles: string[] = []
+    for (const [filePath] of files) {
+      const generated = await processFile(filePath)
+      if (generated) {
+        await Deno.writeTextFile(getOutputPath(filePath), generated.replaceAll(`"@dezer/core"`, core))
+        generatedFiles.push(getOutputPath(filePath))
+      }
+    }
+
+    const exports = await import(`file://${directory}/model.ts`)
+    for (const filePath of generatedFiles) {
+      await import(`file://${filePath}`)
+    }
+    return exports
+  } finally {
+    await Deno.remove(directory, { recursive: true })
+  }
+}
+
+/**
+ * Get the message of the error a function throws
+ */
+function errorMessage(fn: () => unknown): string {
+  try {
+    fn()
+  } catch (error) {
+    return (error as Error).message
+  }
+  throw new Error("expected an error")
+}
 
 Deno.test("Parser - should find @Serializable classes", () => {
   const sourceCode = `
@@ -81,3 +161,1311 @@ Deno.test("Generator - should generate serialize method", () => {
   assertEquals(result.includes("deserializeStruct"), true)
   assertEquals(result.includes("extends Serialize, Deserialize"), true)
 })
+
+Deno.test("Parser - should resolve enums and literal unions", () => {
+  const sourceCode = `
+    import { Serializable, SerializableEnum } from "../src/mod.ts"
+
+    enum Status { Active = "active", Inactive = "inactive" }
+    enum Priority { Low, Mid = 5, High }
+    SerializableEnum(Priority, { serializeBy: "name" })
+
+    @Serializable
+    class Task {
+      status: Status
+      priority: Priority
+      kind: "draft" | "published"
+    }
+  `
+
+  const result = parseSourceFile("test.ts", sourceCode)
+  const [status, priority, kind] = result[0].fields
+
+  assertEquals(status.typeInfo, {
+    kind: "enum",
+    enum: {
+      name: "Status",
+      variants: [{ name: "Active", value: "active" }, { name: "Inactive", value: "inactive" }],
+      options: {},
+    },
+  })
+  assertEquals(priority.typeInfo, {
+    kind: "enum",
+    enum: {
+      name: "Priority",
+      variants: [{ name: "Low", value: 0 }, { name: "Mid", value: 5 }, { name: "High", value: 6 }],
+      options: { serializeBy: "name" },
+    },
+  })
+  assertEquals(kind.typeInfo?.kind, "enum")
+})
+
+Deno.test("Generator - should generate enum serialization", () => {
+  const sourceCode = `
+    enum Status { Active = "active", Inactive = "inactive" }
+
+    @Serializable
+    class Task {
+      status: Status
+    }
+  `
+
+  const result = generateSerializationCode(parseSourceFile("test.ts", sourceCode)[0])
+
+  assertEquals(result.includes('$dezer.serializeEnumValue(serializer, "Status"'), true)
+  assertEquals(result.includes('$dezer.deserializeEnumValue(value, "Status"'), true)
+  assertEquals(result.includes('{ name: "Active", value: "active" }'), true)
+})
+
+Deno.test("Parser - should resolve tagged unions of classes", () => {
+  const sourceCode = `
+    @Serializable({ tag: "type" })
+    class Circle {
+      radius: number
+    }
+
+    @Serializable({ name: "square", tag: "type" })
+    class Square {
+      side: number
+    }
+
+    type Shape = Circle | Square
+
+    @Serializable
+    class Drawing {
+      shape: Shape
+      shapes: (Circle | Square)[]
+    }
+  `
+
+  const result = parseSourceFile("test.ts", sourceCode)
+  const [shape, shapes] = result[2].fields
+
+  assertEquals(shape.typeInfo, {
+    kind: "union",
+    name: "Shape",
+    variants: [{ name: "Circle", className: "Circle" }, { name: "square", className: "Square" }],
+    representation: { tag: "type" },
+  })
+  assertEquals(shapes.typeInfo?.kind, "array")
+
+  const generated = generateSerializationCode(result[2])
+  assertEquals(generated.includes('$dezer.serializeUnionValue(serializer, "Shape"'), true)
+  assertEquals(generated.includes('{ name: "square", type: Square }'), true)
+  assertEquals(generated.includes('{ tag: "type" }'), true)
+})
+
+Deno.test("Parser - should capture Map, Set and Record type arguments", () => {
+  const sourceCode = `
+    @Serializable
+    class Inventory {
+      metadata: Map<string, number>
+      ids: Set<string>
+      scores: Record<string, Item[]>
+    }
+  `
+
+  const [parsed] = parseSourceFile("test.ts", sourceCode)
+
+  assertEquals(parsed.fields[0].type, "Map<string, number>")
+  assertEquals(parsed.fields[0].typeInfo, {
+    kind: "map",
+    key: { kind: "primitive", name: "string" },
+    value: { kind: "primitive", name: "number" },
+  })
+  assertEquals(parsed.fields[1].typeInfo, { kind: "set", element: { kind: "primitive", name: "string" } })
+  assertEquals(parsed.fields[2].typeInfo, {
+    kind: "record",
+    key: { kind: "primitive", name: "string" },
+    value: { kind: "array", element: { kind: "reference", name: "Item" } },
+  })
+})
+
+Deno.test("Generated code - should rebuild Map, Set and Record fields", async () => {
+  const { Inventory } = await compileFixture(`
+    @Serializable
+    export class Item {
+      name: string = ""
+    }
+
+    @Serializable
+    export class Inventory {
+      items: Map<number, Item> = new Map()
+      ids: Set<string> = new Set()
+      counts: Record<string, number> = {}
+    }
+  `)
+
+  const json = `{"items":{"1":{"name":"pen"}},"ids":["a","b"],"counts":{"pen":2}}`
+  const inventory = fromString(json, Inventory)
+  const items = inventory.items as unknown as Map<number, object>
+  assertEquals([items instanceof Map, [...items.keys()], items.get(1)?.constructor.name], [true, [1], "Item"])
+  assertEquals(inventory.ids as unknown, new Set(["a", "b"]))
+  assertEquals(inventory.counts as unknown, { pen: 2 })
+  assertEquals(toString(inventory), json)
+  assertEquals(toString(fromYaml(toYaml(inventory), Inventory)), json)
+  assertEquals(
+    errorMessage(() => fromString(`{"items": {"one": {"name": "pen"}}, "ids": [], "counts": {}}`, Inventory)),
+    `Field 'items.one' expected numeric key, got "one"`,
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"items": {}, "ids": [], "counts": {"pen": "2"}}`, Inventory)),
+    "Field 'counts.pen' expected number, got string",
+  )
+})
+
+Deno.test("Parser - should capture class type parameters", () => {
+  const sourceCode = `
+    @Serializable
+    class Page<T> {
+      items: T[]
+      next?: Page<T>
+    }
+  `
+
+  const [parsed] = parseSourceFile("test.ts", sourceCode)
+
+  assertEquals(parsed.typeParameters, [{ name: "T", declaration: "T" }])
+  assertEquals(parsed.fields[0].typeInfo, { kind: "array", element: { kind: "typeParameter", name: "T", index: 0 } })
+  assertEquals(parsed.fields[1].typeInfo, {
+    kind: "reference",
+    name: "Page",
+    typeArguments: [{ kind: "typeParameter", name: "T", index: 0 }],
+  })
+})
+
+Deno.test("Generated code - should deserialize type parameters with bound type arguments", async () => {
+  const { Page, User } = await compileFixture(`
+    @Serializable
+    export class User {
+      name: string = ""
+    }
+
+    @Serializable
+    export class Page<T> {
+      items: T[] = []
+      next?: Page<T>
+    }
+  `)
+  const { of } = Page as unknown as { of(...typeArguments: unknown[]): new () => FixtureValue }
+
+  const json = `{"items":[{"name":"ada"}],"next":{"items":[{"name":"bob"}]}}`
+  const page = fromString(json, of(User))
+  const users = [page.items[0], page.next.items[0]]
+  assertEquals(users.map((user) => [user instanceof User, user.name]), [[true, "ada"], [true, "bob"]])
+  assertEquals(toString(page), json)
+  assertEquals(toString(fromYaml(toYaml(page), of(User))), json)
+  assertEquals(fromString(`{"items":[1,2]}`, of(Number)).items as unknown, [1, 2])
+  assertEquals(
+    errorMessage(() => fromString(`{"items":[{"name":"ada"}],"next":{"items":[{"name":1}]}}`, of(User))),
+    "Field 'next.items[0].name' expected string, got number",
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"items":["1"]}`, of(Number))),
+    "Field 'items[0]' expected number, got string",
+  )
+})
+
+Deno.test("Parser - should merge inherited fields", () => {
+  const sourceCode = `
+    class Entity<T> {
+      id: T
+      kind: string
+    }
+
+    @Serializable
+    class User extends Entity<number> {
+      name: string
+    }
+
+    @Serializable
+    class Admin extends User {
+      @Field({ name: "admin_kind" })
+      kind: string
+      level: number
+    }
+  `
+
+  const [, admin] = parseSourceFile("test.ts", sourceCode)
+
+  assertEquals(admin.fields.map((f) => f.options.name ?? f.propertyName), ["id", "admin_kind", "name", "level"])
+  assertEquals(admin.fields[0].typeInfo, { kind: "primitive", name: "number" })
+})
+
+Deno.test("Parser - should resolve base classes from imported modules", () => {
+  const files: Record<string, string> = {
+    "models/base/user.ts": `
+      import { Address as Location } from "../address.ts"
+
+      export class User {
+        name: string
+        home: Location
+      }
+    `,
+  }
+  const sourceCode = `
+    import { User } from "./base/user.ts"
+
+    @Serializable
+    class Admin extends User {
+      level: number
+    }
+  `
+
+  const [admin] = parseSourceFile("models/admin.ts", sourceCode, (path) => files[path] ?? null)
+
+  assertEquals(admin.fields.map((f) => f.propertyName), ["name", "home", "level"])
+  assertEquals(admin.fields[1].typeInfo, {
+    kind: "reference",
+    name: "Location",
+    importFrom: { name: "Address", module: "./address.ts" },
+  })
+  assertEquals(
+    generateAugmentationFile([admin], "models/admin.ts").includes('import { Address as Location } from "./address.ts"'),
+    true,
+  )
+})
+
+Deno.test("Generated code - should read inherited fields of base classes imported from another module", async () => {
+  const { Admin, Address } = await compileFixture(
+    `
+    import { User } from "./user.ts"
+
+    export { Address } from "./address.ts"
+
+    @Serializable
+    export class Admin extends User {
+      level: number = 0
+    }
+  `,
+    {
+      "address.ts": `
+        @Serializable
+        export class Address {
+          city: string = ""
+        }
+      `,
+      "user.ts": `
+        import { Address as Location } from "./address.ts"
+
+        export class Entity<T> {
+          id!: T
+        }
+
+        export class User extends Entity<number> {
+          name: string = ""
+          home: Location = new Location()
+        }
+      `,
+    },
+  )
+
+  const json = `{"id":7,"name":"ada","home":{"city":"Paris"},"level":2}`
+  const admin = fromString(json, Admin)
+  assertEquals([admin.id, admin.home instanceof Address, admin.home.city], [7, true, "Paris"])
+  assertEquals(toString(admin), json)
+  assertEquals(toString(fromYaml(toYaml(admin), Admin)), json)
+  assertEquals(
+    errorMessage(() => fromString(`{"id":"7","name":"ada","home":{"city":"Paris"},"level":2}`, Admin)),
+    "Field 'id' expected number, got string",
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"id":7,"name":"ada","home":{"city":1},"level":2}`, Admin)),
+    "Field 'home.city' expected string, got number",
+  )
+})
+
+Deno.test("Generated code - should apply defaults and reject missing required fields", async () => {
+  const { Account } = await compileFixture(`
+    @Serializable
+    export class Account {
+      @Field({ required: true, name: "user_name" })
+      name: string = "anonymous"
+
+      @Field({ default: ["new"] })
+      tags: string[] = []
+    }
+  `)
+
+  const account = fromString(`{"user_name": "ada"}`, Account)
+  assertEquals([account.name, account.tags], ["ada", ["new"]])
+  assertEquals(fromString(`{"user_name": "ada", "tags": []}`, Account).tags as unknown, [])
+  assertEquals(toString(account), `{"user_name":"ada","tags":["new"]}`)
+  assertEquals(fromYaml(toYaml(account), Account).tags as unknown, ["new"])
+  assertEquals(
+    errorMessage(() => fromString(`{"tags": []}`, Account)),
+    "Missing required field 'user_name' in struct Account",
+  )
+})
+
+Deno.test("Generated code - should respect one-directional skip flags", async () => {
+  const { Account } = await compileFixture(`
+    @Serializable
+    export class Account {
+      name: string = ""
+
+      @Field({ skipSerializing: true })
+      password: string = ""
+
+      @Field({ skipDeserializing: true })
+      createdBy: string = "system"
+    }
+  `)
+
+  const account = fromString(`{"name": "ada", "password": "secret", "createdBy": "mallory"}`, Account)
+  assertEquals([account.password, account.createdBy], ["secret", undefined])
+  assertEquals(toString(new Account()), `{"name":"","createdBy":"system"}`)
+  assertEquals(toYaml(account).includes("secret"), false)
+  assertEquals(
+    errorMessage(() => fromString(`{"name": "ada", "password": 1}`, Account)),
+    "Field 'password' expected string, got number",
+  )
+})
+
+Deno.test("Generated code - should reject unknown fields and accept aliases", async () => {
+  const { Config, Lenient } = await compileFixture(`
+    @Serializable({ denyUnknownFields: true })
+    export class Config {
+      database: string = ""
+
+      @Field({ aliases: ["emailAddress", "mail"] })
+      email: string = ""
+    }
+
+    @Serializable
+    export class Lenient {
+      database: string = ""
+    }
+  `)
+
+  for (const key of ["email", "emailAddress", "mail"]) {
+    assertEquals(fromString(`{"database": "db", "${key}": "a@b.c"}`, Config).email, "a@b.c")
+  }
+  const config = fromString(`{"database": "db", "mail": "a@b.c"}`, Config)
+  assertEquals(toString(config), `{"database":"db","email":"a@b.c"}`)
+  assertEquals(fromYaml(toYaml(config), Config).email, "a@b.c")
+  assertEquals(fromString(`{"database": "db", "port": 5432}`, Lenient).database, "db")
+  assertEquals(
+    errorMessage(() => fromString(`{"database": "db", "port": 5432}`, Config)),
+    `Unknown field 'port' in struct Config, expected one of "database", "email"`,
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"database": "db", "mail": 1}`, Config)),
+    "Field 'email' expected string, got number",
+  )
+})
+
+Deno.test("Generated code - should apply renameAll to fields and enum variants", async () => {
+  const { Profile } = await compileFixture(`
+    export enum Plan { FreeTier, ProPlan }
+    SerializableEnum(Plan, { serializeBy: "name", renameAll: "kebab-case" })
+
+    @Serializable({ renameAll: { serialize: "snake_case", deserialize: "camelCase" } })
+    export class Profile {
+      firstName: string = ""
+
+      @Field({ name: "mail" })
+      emailAddress: string = ""
+
+      plan: Plan = Plan.FreeTier
+    }
+  `)
+
+  const profile = fromString(`{"firstName": "Ada", "mail": "a@b.c", "plan": "pro-plan"}`, Profile)
+  assertEquals([profile.firstName, profile.emailAddress, profile.plan as unknown], ["Ada", "a@b.c", 1])
+  assertEquals(toString(profile), `{"first_name":"Ada","mail":"a@b.c","plan":"pro-plan"}`)
+  assertEquals(toYaml(profile).includes("first_name: Ada"), true)
+  assertEquals(
+    errorMessage(() => fromString(`{"firstName": "Ada", "mail": "", "plan": "ProPlan"}`, Profile)),
+    `Field 'plan' expected one of "free-tier", "pro-plan", got "ProPlan"`,
+  )
+  assertEquals(fromString(`{"first_name": "Ada", "mail": "", "plan": "pro-plan"}`, Profile).firstName, undefined)
+})
+
+Deno.test("applyRenameRule - should convert between case conventions", () => {
+  assertEquals(applyRenameRule("parseHTTPResponse", "snake_case"), "parse_http_response")
+  assertEquals(applyRenameRule("created_at", "camelCase"), "createdAt")
+  assertEquals(applyRenameRule("userID", "kebab-case"), "user-id")
+  assertEquals(applyRenameRule("maxRetries", "SCREAMING_SNAKE_CASE"), "MAX_RETRIES")
+  assertEquals(applyRenameRule("MAX_RETRIES", "PascalCase"), "MaxRetries")
+})
+
+Deno.test("Generated code - should skip undefined optional fields and honor skipIf", async () => {
+  const { Item } = await compileFixture(`
+    export function isBlank(value: string): boolean {
+      return value.trim() === ""
+    }
+
+    @Serializable
+    export class Item {
+      age?: number
+      manager: string | null = null
+
+      @Field({ skipIf: "empty" })
+      tags: string[] = []
+
+      @Field({ skipIf: "default" })
+      count: number = 0
+
+      @Field({ skipIf: isBlank })
+      note: string = ""
+    }
+  `)
+
+  assertEquals(toString(new Item()), `{"manager":null}`)
+  const full = `{"age":3,"manager":"ada","tags":["a"],"count":2,"note":"hi"}`
+  assertEquals(toString(fromString(full, Item)), full)
+  assertEquals(toString(fromYaml(toYaml(fromString(full, Item)), Item)), full)
+  const item = fromString(`{"manager": null, "note": "  "}`, Item)
+  assertEquals([item.age, item.manager, item.note], [undefined, null, "  "])
+  assertEquals(toString(item), `{"manager":null}`)
+  assertEquals(errorMessage(() => fromString(`{"manager": 1}`, Item)), "Field 'manager' expected string, got number")
+  assertEquals(
+    errorMessage(() => fromString(`{"age": null, "manager": null}`, Item)),
+    "Field 'age' expected number, got object",
+  )
+})
+
+Deno.test("Generated code - should construct instances through the constructor or a factory", async () => {
+  const { Account, Point } = await compileFixture(`
+    @Serializable({ construct: "constructor" })
+    export class Account {
+      createdAt: Date = new Date(0)
+      label: string
+
+      constructor(readonly id: string, readonly owner: string) {
+        this.label = id + "@" + owner
+      }
+    }
+
+    @Serializable({ construct: "factory" })
+    export class Point {
+      x: number = 0
+      y: number = 0
+
+      static fromFields(fields: Partial<Point>): Point {
+        return Object.assign(new Point(), { y: -1, ...fields })
+      }
+    }
+  `)
+
+  const account = fromString(`{"id": "a1", "owner": "ada", "createdAt": "2024-01-02T00:00:00.000Z"}`, Account)
+  assertEquals([account instanceof Account, account.id, account.label], [true, "a1", "a1@ada"])
+  assertEquals(account.createdAt, new Date("2024-01-02T00:00:00.000Z"))
+  assertEquals(toString(fromYaml(toYaml(account), Account)), toString(account))
+  const point = fromString(`{"x": 2}`, Point)
+  assertEquals([point instanceof Point, point.x, point.y], [true, 2, -1])
+  assertEquals(
+    errorMessage(() => fromString(`{"id": 1}`, Account)),
+    "Field 'id' expected string, got number",
+  )
+  assertEquals(
+    errorMessage(() =>
+      parseSourceFile(
+        "test.ts",
+        `
+          @Serializable({ construct: "constructor" })
+          class Range {
+            constructor({ from, to }: { from: number; to: number }) {}
+          }
+        `,
+      )
+    ),
+    'Cannot match the destructured constructor parameter { from, to } of Range to a field, construct: "constructor" needs named parameters',
+  )
+})
+
+Deno.test("Generated code - should call custom serializer and deserializer functions", async () => {
+  const { Order } = await compileFixture(
+    `
+    import { cents } from "./codecs.ts"
+
+    export const upper = (code: string) => code.toUpperCase()
+    export const lower = (code: unknown) => String(code).toLowerCase()
+
+    @Serializable
+    export class Order {
+      @Custom(upper, lower)
+      code: string = ""
+
+      @Field({ serializeWith: cents.write, deserializeWith: cents.read })
+      amount: number = 0
+
+      @Field({ transform: { serialize: (v: Date) => v.getTime(), deserialize: (v: number) => new Date(v) } })
+      at: Date = new Date(0)
+    }
+  `,
+    {
+      "codecs.ts": `
+        export const cents = {
+          write: (amount: number) => Math.round(amount * 100),
+          read: (value: unknown) => {
+            if (typeof value !== "number") {
+              throw new Error("expected cents")
+            }
+            return value / 100
+          },
+        }
+      `,
+    },
+  )
+
+  const order = fromString(`{"code": "AB-1", "amount": 1250, "at": 86400000}`, Order)
+  assertEquals([order.code, order.amount, order.at], ["ab-1", 12.5, new Date(86400000)])
+  assertEquals(toString(order), `{"code":"AB-1","amount":1250,"at":86400000}`)
+  assertEquals(toString(fromYaml(toYaml(order), Order)), toString(order))
+  assertEquals(errorMessage(() => fromString(`{"code": "x", "amount": "12.50", "at": 0}`, Order)), "expected cents")
+})
+
+Deno.test("Generated code - should install traits on remote classes", async () => {
+  const { Money, MoneyDef } = await compileFixture(
+    `
+    import { Money } from "./money.ts"
+
+    export { Money }
+
+    @SerializableRemote(Money, { denyUnknownFields: true })
+    export class MoneyDef {
+      amount: number
+      currency: string
+    }
+  `,
+    {
+      "money.ts": `
+        export class Money {
+          constructor(readonly amount: number, readonly currency: string) {}
+
+          format(): string {
+            return this.amount + " " + this.currency
+          }
+        }
+      `,
+    },
+  )
+
+  const money = fromString(`{"amount": 5, "currency": "EUR"}`, Money)
+  assertEquals([money instanceof Money, (money as unknown as { format(): string }).format()], [true, "5 EUR"])
+  assertEquals(toString(money), `{"amount":5,"currency":"EUR"}`)
+  assertEquals(toString(fromYaml(toYaml(money), Money)), toString(money))
+  assertEquals(SERIALIZE in MoneyDef.prototype, false)
+  assertEquals(
+    errorMessage(() => fromString(`{"amount": 5, "currency": "EUR", "rate": 1}`, Money)),
+    `Unknown field 'rate' in struct Money, expected one of "amount", "currency"`,
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"amount": "5", "currency": "EUR"}`, Money)),
+    "Field 'amount' expected number, got string",
+  )
+})
+
+Deno.test("Generated code - should flatten nested structs and collect remaining keys", async () => {
+  const { Listing, Pagination } = await compileFixture(`
+    @Serializable
+    export class Pagination {
+      page: number = 1
+      size: number = 10
+    }
+
+    @Serializable
+    export class Listing {
+      title: string = ""
+
+      @Field({ flatten: true })
+      pagination: Pagination = new Pagination()
+
+      @Field({ flatten: true })
+      extra: Record<string, unknown> = {}
+    }
+  `)
+
+  const json = `{"title":"t","page":2,"size":20,"sort":"asc"}`
+  const listing = fromString(json, Listing)
+  assertEquals([listing.pagination instanceof Pagination, listing.pagination.page], [true, 2])
+  assertEquals(listing.extra as unknown, { sort: "asc" })
+  assertEquals(toString(listing), json)
+  assertEquals(toString(fromYaml(toYaml(listing), Listing)), json)
+  assertEquals(
+    errorMessage(() => fromString(`{"title": "t", "page": "2", "size": 20}`, Listing)),
+    "Field 'page' expected number, got string",
+  )
+})
+
+Deno.test("Generated code - should serialize transparent classes as their single field", async () => {
+  const { Order, UserId } = await compileFixture(`
+    @Serializable({ transparent: true })
+    export class UserId {
+      constructor(readonly value: string) {}
+    }
+
+    @Serializable
+    export class Order {
+      owner: UserId = new UserId("")
+      watchers: UserId[] = []
+    }
+  `)
+
+  const json = `{"owner":"u1","watchers":["u2","u3"]}`
+  const order = fromString(json, Order)
+  assertEquals([order.owner instanceof UserId, order.owner.value, order.watchers[1].value], [true, "u1", "u3"])
+  assertEquals(toString(order), json)
+  assertEquals(toString(fromYaml(toYaml(order), Order)), json)
+  assertEquals(fromString(`"u4"`, UserId).value, "u4")
+  assertEquals(
+    errorMessage(() => fromString(`{"owner": {"value": "u1"}, "watchers": []}`, Order)),
+    "Field 'owner.value' expected string, got object",
+  )
+  assertEquals(
+    errorMessage(() =>
+      generateSerializationCode(
+        parseSourceFile(
+          "test.ts",
+          `
+          @Serializable({ transparent: true })
+          class Pair {
+            first: string
+            second: string
+          }
+        `,
+        )[0],
+      )
+    ),
+    "Transparent class Pair must have exactly one serialized field, found 2",
+  )
+})
+
+Deno.test("Generated code - should validate tuple fields element by element", async () => {
+  const { Shape, Tag } = await compileFixture(`
+    @Serializable
+    export class Tag {
+      name: string = ""
+    }
+
+    @Serializable
+    export class Shape {
+      point: [number, number] = [0, 0]
+      labeled: [string, Tag?] = [""]
+      rest: [string, ...Date[]] = [""]
+    }
+  `)
+
+  const json = `{"point":[1,2],"labeled":["a",{"name":"b"}],"rest":["r","2024-01-02T00:00:00.000Z"]}`
+  const shape = fromString(json, Shape)
+  assertEquals([shape.labeled[1] instanceof Tag, shape.rest[1]], [true, new Date("2024-01-02T00:00:00.000Z")])
+  assertEquals(toString(shape), json)
+  assertEquals(toString(fromYaml(toYaml(shape), Shape)), json)
+  assertEquals(fromString(`{"point":[1,2],"labeled":["a"],"rest":["r"]}`, Shape).labeled as unknown, ["a"])
+  assertEquals(
+    errorMessage(() => fromString(`{"point":[1],"labeled":["a"],"rest":["r"]}`, Shape)),
+    "Field 'point' expected tuple of 2 elements, got 1",
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"point":[1,2],"labeled":["a"],"rest":["r",1,"x"]}`, Shape)),
+    "Field 'rest[1]' expected Date or date string, got number",
+  )
+})
+
+Deno.test("Generated code - should read bigint fields through the format", async () => {
+  const { Account } = await compileFixture(`
+    @Serializable
+    export class Account {
+      balance: bigint = 0n
+      history: bigint[] = []
+    }
+  `)
+
+  const json = `{"balance":12345678901234567890,"history":[1,-2]}`
+  const account = fromString(json, Account)
+  assertEquals([account.balance, account.history], [12345678901234567890n, [1n, -2n]])
+  assertEquals(toString(account), json)
+  assertEquals(fromYaml(toYaml(account), Account).balance, 12345678901234567890n)
+  assertEquals(fromString(`{"balance": "-7", "history": []}`, Account).balance, -7n)
+  assertEquals(
+    errorMessage(() => fromString(`{"balance": 1, "history": [1, 2.5]}`, Account)),
+    "Field 'history[1]' expected integer, got number",
+  )
+})
+
+Deno.test("Generated code - should read dates through the format with the field's date format", async () => {
+  const { Event } = await compileFixture(`
+    @Serializable
+    export class Event {
+      at: Date = new Date(0)
+      @Field({ dateFormat: "epochMillis" })
+      reminders: Date[] = []
+    }
+  `)
+
+  const json = `{"at":"2024-01-02T03:04:05.000Z","reminders":[1704164645000]}`
+  const event = fromString(json, Event)
+  assertEquals(event.at, new Date("2024-01-02T03:04:05.000Z"))
+  assertEquals(event.reminders, [new Date(1704164645000)])
+  assertEquals(toString(event), json)
+  assertEquals(fromYaml(toYaml(event), Event).reminders, [new Date(1704164645000)])
+  assertEquals(
+    errorMessage(() => fromString(`{"at": "2024-01-02", "reminders": ["2024-01-02"]}`, Event)),
+    `Field 'reminders[0]' expected epoch milliseconds, got "2024-01-02"`,
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"at": "yesterday", "reminders": []}`, Event)),
+    "Field 'at' expected valid date string, got invalid date: yesterday",
+  )
+})
+
+Deno.test("Generated code - should read platform value types", async () => {
+  const { Resource } = await compileFixture(`
+    @Serializable
+    export class Resource {
+      homepage: URL = new URL("https://example.com")
+      at: Temporal.Instant = Temporal.Instant.fromEpochMilliseconds(0)
+      weights: Float32Array = new Float32Array()
+      data: Uint8Array = new Uint8Array()
+      pattern: RegExp = /x/
+    }
+  `)
+
+  const json =
+    `{"homepage":"https://example.com/a","at":"2024-01-02T00:00:00Z","weights":[1.5,2],"data":"AAH/","pattern":"/^a$/i"}`
+  const resource = fromString(json, Resource)
+  assertEquals([resource.homepage instanceof URL, String(resource.homepage)], [true, "https://example.com/a"])
+  assertEquals(String(resource.at), "2024-01-02T00:00:00Z")
+  assertEquals(resource.weights as unknown, new Float32Array([1.5, 2]))
+  assertEquals(resource.data as unknown, new Uint8Array([0, 1, 255]))
+  assertEquals((resource.pattern as unknown as RegExp).flags, "i")
+  assertEquals(toString(resource), json)
+  assertEquals(toString(fromYaml(toYaml(resource), Resource)), json)
+  assertEquals(
+    errorMessage(() => fromString(json.replace(`"https://example.com/a"`, `"not a url"`), Resource)),
+    "Field 'homepage' expected URL, got string",
+  )
+  assertEquals(
+    errorMessage(() => fromString(json.replace(`[1.5,2]`, `[1.5,"2"]`), Resource)),
+    "Field 'weights[1]' expected number, got string",
+  )
+  assertEquals(
+    errorMessage(() => fromString(json.replace(`"2024-01-02T00:00:00Z"`, `"yesterday"`), Resource)),
+    "Field 'at' expected Temporal.Instant, got string",
+  )
+})
+
+Deno.test("Generated code - should deserialize nested and generic-syntax arrays at every depth", async () => {
+  const { Team, User } = await compileFixture(`
+    @Serializable
+    export class User {
+      name: string = ""
+    }
+
+    @Serializable
+    export class Team {
+      grid: User[][] = []
+      members: Array<User> = []
+      maybe: ReadonlyArray<User | null> = []
+      scores: number[][][] = []
+    }
+  `)
+
+  const json = `{"grid":[[{"name":"a"}],[]],"members":[{"name":"b"}],"maybe":[null,{"name":"c"}],"scores":[[[1,2]]]}`
+  const team = fromString(json, Team)
+  const users = [team.grid[0][0], team.members[0], team.maybe[1]]
+  assertEquals(users.map((user) => user instanceof User), [true, true, true])
+  assertEquals(team.maybe[0], null)
+  assertEquals(toString(team), json)
+  assertEquals(toString(fromYaml(toYaml(team), Team)), json)
+  assertEquals(
+    errorMessage(() => fromString(json.replace(`"a"`, "1"), Team)),
+    "Field 'grid[0][0].name' expected string, got number",
+  )
+  assertEquals(
+    errorMessage(() => fromString(json.replace("[[[1,2]]]", `[[[1,"2"]]]`), Team)),
+    "Field 'scores[0][0][1]' expected number, got string",
+  )
+})
+
+Deno.test("Generated code - should route nullable fields through deserializeOption", async () => {
+  const { Employee, User } = await compileFixture(`
+    @Serializable
+    export class User {
+      name: string = ""
+    }
+
+    @Serializable
+    export class Employee {
+      manager: User | null = null
+      note: string | null = null
+    }
+  `)
+
+  const json = `{"manager":{"name":"ada"},"note":null}`
+  const employee = fromString(json, Employee)
+  assertEquals([employee.manager instanceof User, employee.note], [true, null])
+  assertEquals(toString(employee), json)
+  assertEquals(toString(fromYaml(toYaml(employee), Employee)), json)
+  assertEquals(fromYaml("manager: null\nnote: hi\n", Employee).manager, null)
+  assertEquals(
+    errorMessage(() => fromString(`{"manager": {"name": 1}, "note": null}`, Employee)),
+    "Field 'manager.name' expected string, got number",
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"manager": null, "note": 1}`, Employee)),
+    "Field 'note' expected string, got number",
+  )
+})
+
+Deno.test("Generated code - should read accessor fields through their getters and setters", async () => {
+  const { Person } = await compileFixture(`
+    @Serializable
+    export class Person {
+      first: string = ""
+      last: string = ""
+      @Ignore
+      alias: string = ""
+
+      @Field()
+      get fullName(): string {
+        return this.first + " " + this.last
+      }
+
+      @Field({ name: "nick" })
+      set nickname(value: string) {
+        this.alias = value.toLowerCase()
+      }
+
+      get computed(): number {
+        return 1
+      }
+    }
+  `)
+
+  const person = fromString(`{"first": "Ada", "last": "L", "fullName": "x", "nick": "ADA"}`, Person)
+  assertEquals([person.fullName, person.alias], ["Ada L", "ada"])
+  assertEquals(toString(person), `{"first":"Ada","last":"L","fullName":"Ada L"}`)
+  assertEquals(toString(fromYaml(toYaml(person), Person)), toString(person))
+  assertEquals(
+    errorMessage(() => fromString(`{"first": "Ada", "last": "L", "nick": 1}`, Person)),
+    "Field 'nickname' expected string, got number",
+  )
+})
+
+Deno.test("Generated code - should reach decorated #private fields through the recorded accessors", async () => {
+  const { Account } = await compileFixture(`
+    @Serializable
+    export class Account {
+      owner: string = ""
+
+      @Field()
+      #balance: number = 0
+
+      @Field()
+      get #limit(): number {
+        return this.#balance * 2
+      }
+
+      #history: number[] = []
+
+      get balance(): number {
+        return this.#balance
+      }
+    }
+  `)
+
+  const account = fromString(`{"owner": "ada", "balance": 21, "limit": 1, "history": [1]}`, Account)
+  assertEquals(account.balance, 21)
+  assertEquals(toString(account), `{"owner":"ada","balance":21,"limit":42}`)
+  assertEquals(fromYaml(toYaml(account), Account).balance, 21)
+  assertEquals(
+    errorMessage(() => fromString(`{"owner": "ada", "balance": "x"}`, Account)),
+    "Field 'balance' expected number, got string",
+  )
+})
+
+Deno.test("Generated code - should write and dispatch on the discriminator of class hierarchies", async () => {
+  const { Drawing } = await compileFixture(`
+    @Serializable({ discriminator: "kind" })
+    export abstract class Shape {
+      id: string = ""
+    }
+
+    @Serializable({ name: "circle" })
+    export class Circle extends Shape {
+      radius: number = 0
+    }
+
+    @Serializable({ name: "rect" })
+    export class Rect extends Shape {
+      width: number = 0
+    }
+
+    @Serializable
+    export class Drawing {
+      shapes: Shape[] = []
+      c: Circle = new Circle()
+    }
+  `)
+
+  const json = `{"shapes":[{"kind":"rect","id":"a","width":2},{"kind":"circle","id":"b","radius":1}],` +
+    `"c":{"kind":"circle","id":"c","radius":3}}`
+  const drawing = fromString(json, Drawing)
+  assertEquals((drawing.shapes as unknown as object[]).map((shape) => shape.constructor.name), ["Rect", "Circle"])
+  assertEquals(toString(drawing), json)
+  assertEquals(toString(fromYaml(toYaml(drawing), Drawing)), json)
+  assertEquals(
+    toString(fromString(`{"shapes": [], "c": {"id": "d", "radius": 4}}`, Drawing).c),
+    `{"kind":"circle","id":"d","radius":4}`,
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"shapes": [{"id": "a"}], "c": {"id": "c"}}`, Drawing)),
+    "Missing type id 'kind' for Shape",
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"shapes": [], "c": {"kind": "rect", "id": "x"}}`, Drawing)),
+    `Unknown type id "rect" for Circle, expected one of "circle"`,
+  )
+})
+
+Deno.test("Generated code - should call lifecycle hooks around serialization and after deserialization", async () => {
+  const { Meeting } = await compileFixture(`
+    export class Base {
+      @Ignore
+      calls: string[] = []
+
+      @AfterDeserialize
+      rebuild() {
+        this.calls = ["rebuild"]
+      }
+    }
+
+    @Serializable
+    export class Meeting extends Base {
+      email: string = ""
+      start: number = 0
+      end: number = 0
+
+      @BeforeSerialize
+      @AfterDeserialize
+      normalize() {
+        this.email = this.email.trim().toLowerCase()
+        this.calls.push("normalize")
+      }
+
+      @Validate
+      checkRange() {
+        return this.start <= this.end || "start must not be after end"
+      }
+    }
+  `)
+
+  const meeting = fromString(`{"email": " Ada@Example.com ", "start": 1, "end": 2}`, Meeting)
+  assertEquals([meeting.email, meeting.calls], ["ada@example.com", ["rebuild", "normalize"]])
+  assertEquals(toString(meeting), `{"email":"ada@example.com","start":1,"end":2}`)
+  assertEquals(meeting.calls as unknown, ["rebuild", "normalize", "normalize"])
+  assertEquals(fromYaml(toYaml(meeting), Meeting).email, "ada@example.com")
+  assertEquals(
+    errorMessage(() => fromString(`{"email": "a", "start": 2, "end": 1}`, Meeting)),
+    "Error in checkRange() of struct Meeting: start must not be after end",
+  )
+})
+
+Deno.test("Generated code - should check constraint options after validating the field type", async () => {
+  const { User } = await compileFixture(`
+    @Serializable
+    export class User {
+      @Field({ min: 0, integer: true })
+      age: number = 0
+
+      @Field({ pattern: /^[a-z]+$/, maxLength: 8 })
+      name: string = ""
+    }
+  `)
+
+  const json = `{"age":30,"name":"ada"}`
+  assertEquals(toString(fromString(json, User)), json)
+  assertEquals(toString(fromYaml(toYaml(fromString(json, User)), User)), json)
+  assertEquals(
+    errorMessage(() => fromString(`{"age": "30", "name": "ada"}`, User)),
+    "Field 'age' expected number, got string",
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"age": 1.5, "name": "ada"}`, User)),
+    "Field 'age' must be an integer, got 1.5",
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"age": 30, "name": "Ada"}`, User)),
+    `Field 'name' must match /^[a-z]+$/, got "Ada"`,
+  )
+  assertEquals(
+    errorMessage(() => fromString(`{"age": 30, "name": "adalovelace"}`, User)),
+    "Field 'name' must be at most 8 characters long, got 11",
+  )
+})
+
+Deno.test("Generated code - should reject unknown fields with and without flattened structs", async () => {
+  const { Config, Listing } = await compileFixture(`
+    @Serializable
+    export class Pagination {
+      page: number = 1
+    }
+
+    @Serializable({ denyUnknownFields: true })
+    export class Config {
+      database: string = ""
+    }
+
+    @Serializable({ denyUnknownFields: true })
+    export class Listing {
+      title: string = ""
+
+      @Field({ flatten: true })
+      pagination: Pagination = new Pagination()
+    }
+  `)
+
+  assertEquals(fromString(`{"database": "db"}`, Config).database, "db")
+  assertEquals(
+    errorMessage(() => fromString(`{"database": "db", "port": 1}`, Config)),
+    `Unknown field 'port' in struct Config, expected one of "database"`,
+  )
+  assertEquals(fromString(`{"title": "t", "page": 2}`, Listing).pagination.page, 2)
+  assertEquals(
+    errorMessage(() => fromString(`{"title": "t", "page": 2, "size": 10}`, Listing)),
+    `Unknown field 'size' in struct Listing, expected one of "title", "page"`,
+  )
+  try {
+    fromString(`{"title": "t", "page": 2, "size": 10, "sort": "asc"}`, Listing, { collectErrors: true })
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as ValidationError).issues.map((issue) => issue.path), ["size", "sort"])
+  }
+})
+
+Deno.test("Generated code - should collect missing, unknown and invalid fields with their paths", async () => {
+  const { Team } = await compileFixture(`
+    @Serializable({ denyUnknownFields: true })
+    export class Member {
+      @Field({ required: true })
+      name: string = ""
+
+      @Field({ min: 0 })
+      age: number = 0
+    }
+
+    @Serializable
+    export class Team {
+      title: string = ""
+      members: Member[] = []
+    }
+  `)
+  const json = JSON.stringify({
+    title: 1,
+    members: [{ name: "a", age: 1 }, { age: -1, role: "lead" }, { name: 2 }],
+  })
+
+  assertEquals(errorMessage(() => fromString(json, Team)), "Field 'title' expected string, got number")
+  try {
+    fromString(json, Team, { collectErrors: true })
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as ValidationError).issues.map((issue) => issue.path), [
+      "title",
+      "members[1].age",
+      "members[1].role",
+      "members[1].name",
+      "members[2].name",
+    ])
+    assertEquals(
+      (error as ValidationError).issues[3].message,
+      "Missing required field 'name' in struct Member",
+    )
+  }
+  assertEquals(fromString(`{"title": "t", "members": [{"name": "a"}]}`, Team, { collectErrors: true }).title, "t")
+})
+
+Deno.test("Generated code - should check field constraints with their paths", async () => {
+  const { Signup } = await compileFixture(`
+    @Serializable
+    export class Profile {
+      @Field({ min: 13, integer: true })
+      age: number = 13
+    }
+
+    @Serializable
+    export class Signup {
+      @Field({ format: "email" })
+      email: string = ""
+
+      @Field({ minLength: 3, pattern: "^[a-z]+$" })
+      handle: string = ""
+
+      @Field({ oneOf: ["free", "pro"] })
+      plan: string = "free"
+
+      @Field({ maxItems: 2 })
+      tags: string[] = []
+
+      profile: Profile = new Profile()
+    }
+  `)
+  const valid = { email: "a@b.io", handle: "abc", plan: "pro", tags: ["x"], profile: { age: 20 } }
+  assertEquals(fromString(JSON.stringify(valid), Signup).profile.age, 20)
+  assertEquals(fromString(JSON.stringify(valid), Signup, { collectErrors: true }).handle, "abc")
+
+  const json = JSON.stringify({
+    email: "nope",
+    handle: "AB",
+    plan: "team",
+    tags: ["x", "y", "z"],
+    profile: { age: 12.5 },
+  })
+  assertEquals(errorMessage(() => fromString(json, Signup)), `Field 'email' must be a valid email address, got "nope"`)
+  try {
+    fromString(json, Signup, { collectErrors: true })
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as ValidationError).issues.map((issue) => issue.path), [
+      "email",
+      "handle",
+      "plan",
+      "tags",
+      "profile.age",
+    ])
+    assertEquals(
+      (error as ValidationError).issues[4].message,
+      "Field 'profile.age' must be at least 13, got 12.5",
+    )
+  }
+})
+
+Deno.test("Generated code - should try untagged variants apart from the collected issues", async () => {
+  const { Log } = await compileFixture(`
+    @Serializable({ untagged: true })
+    export class Metric {
+      value: number = 0
+    }
+
+    @Serializable({ untagged: true })
+    export class Note {
+      value: string = ""
+    }
+
+    @Serializable
+    export class Log {
+      entry: Metric | Note = new Metric()
+    }
+  `)
+  const json = `{"entry": {"value": "hi"}}`
+
+  assertEquals(fromString(json, Log).entry.value, "hi")
+  assertEquals(fromString(json, Log, { collectErrors: true }).entry.value, "hi")
+  try {
+    fromString(`{"entry": {"value": true}}`, Log, { collectErrors: true })
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as ValidationError).issues.map((issue) => issue.message), [
+      "Field 'entry.value' expected number, got boolean",
+      "Field 'entry.value' expected string, got boolean",
+      "Field 'entry' did not match any variant of Metric | Note",
+    ])
+  }
+})
+
+Deno.test("Generated code - should pick the untagged variant whose fields match the keys", async () => {
+  const { Circle, Drawing } = await compileFixture(`
+    @Serializable({ untagged: true })
+    export class Circle {
+      radius: number = 0
+    }
+
+    @Serializable({ untagged: true })
+    export class Label {
+      text: string = ""
+    }
+
+    @Serializable
+    export class Drawing {
+      shape: Circle | Label = new Circle()
+    }
+  `)
+
+  assertEquals(fromString(`{"shape": {"text": "hi"}}`, Drawing).shape.text, "hi")
+  assertEquals(fromString(`{"shape": {"radius": 2}}`, Drawing).shape.radius, 2)
+  assertEquals(fromString(`{"shape": {}}`, Drawing).shape instanceof Circle, true)
+})
+
+Deno.test("Generated code - should type unannotated fields by the class they're initialized with", async () => {
+  const { Account } = await compileFixture(`
+    @Serializable({ construct: "constructor" })
+    export class Account {
+      createdAt = new Date(0)
+
+      constructor(readonly id: string = "") {}
+    }
+  `)
+
+  const account = fromString(`{"id": "a", "createdAt": "2024-05-01T00:00:00.000Z"}`, Account)
+  assertEquals(account.createdAt instanceof Date, true)
+  assertEquals(account.createdAt, new Date("2024-05-01T00:00:00.000Z"))
+  assertEquals(fromString(`{"id": "a"}`, Account).createdAt, new Date(0))
+})
+
+Deno.test("Generated code - should read enums and literal aliases imported from another module", async () => {
+  const { Task } = await compileFixture(
+    `
+    import { Priority, Status as TaskStatus } from "./status.ts"
+
+    @Serializable
+    export class Task {
+      status: TaskStatus = TaskStatus.Open
+      priority: Priority = "low"
+      history: TaskStatus[] = []
+    }
+  `,
+    {
+      "status.ts": `
+      export enum Status { Open = "open", Done = "done" }
+      SerializableEnum(Status, { serializeBy: "name" })
+
+      export type Priority = "low" | "high"
+    `,
+    },
+  )
+
+  const json = `{"status":"Done","priority":"high","history":["Open"]}`
+  const task = fromString(json, Task)
+  assertEquals([task.status, task.priority, task.history], ["done", "high", ["open"]])
+  assertEquals(toString(task), json)
+  assertEquals(
+    errorMessage(() => fromString(`{"status": "Closed", "priority": "low", "history": []}`, Task)),
+    `Field 'status' expected one of "Open", "Done", got "Closed"`,
+  )
+})
+
+Deno.test("Generated code - should tag unions of classes imported from another module", async () => {
+  const model = `
+    import { Circle, Square } from "./shapes.ts"
+
+    @Serializable
+    export class Drawing {
+      shape: Circle | Square = new Circle()
+    }
+  `
+  const { Drawing } = await compileFixture(model, {
+    "shapes.ts": `
+      @Serializable({ tag: "type", name: "circle" })
+      export class Circle {
+        radius: number = 1
+      }
+
+      @Serializable({ tag: "type", name: "square" })
+      export class Square {
+        side: number = 1
+      }
+    `,
+  })
+
+  const json = `{"shape":{"type":"square","side":3}}`
+  const drawing = fromString(json, Drawing)
+  assertEquals(drawing.shape.side, 3)
+  assertEquals(toString(drawing), json)
+  assertEquals(
+    errorMessage(() => parseSourceFile("model.ts", model)),
+    `Cannot read the @Serializable options of Circle from "./shapes.ts"`,
+  )
+})
@@ -1,7 +1,35 @@
 import { assertEquals } from "@std/assert"
-import { JsonDeserializer, JsonSerializer } from "../../dezer-json/mod.ts"
+import { fromString, JsonDeserializer, JsonSerializer, toString } from "../../dezer-json/mod.ts"
 import type { Deserialize, Deserializer, MapAccess, Serialize, Serializer } from "../mod.ts"
-import { DESERIALIZE, deserializeUnknown, SERIALIZE, serializeUnknown } from "../mod.ts"
+import {
+  collectIssues,
+  DESERIALIZE,
+  deserializeFlattened,
+  deserializeNullable,
+  deserializeSubclass,
+  deserializeUnknown,
+  Field,
+  getPrivateField,
+  isDefaultValue,
+  isEmptyValue,
+  PrimitiveVisitor,
+  recordIssue,
+  registerSubclass,
+  runDeserializeHooks,
+  SERIALIZE,
+  serializeFlattened,
+  serializeUnknown,
+  setPrivateFields,
+  validateBigInt,
+  validateBytes,
+  validateConstraints,
+  validateNumber,
+  validateNumberArray,
+  validateRegExp,
+  validateString,
+  validateTypedArray,
+  ValidationError,
+} from "../mod.ts"
 
 class TestClass {
   name: string
@@ -56,6 +84,10 @@ interface TestClass extends Serialize, Deserialize {} // Manually implement the
       throw new Error("Expected struct TestClass, found number")
     },
 
+    visitBigInt() {
+      throw new Error("Expected struct TestClass, found bigint")
+    },
+
     visitString() {
       throw new Error("Expected struct TestClass, found string")
     },
@@ -64,6 +96,10 @@ interface TestClass extends Serialize, Deserialize {} // Manually implement the
       throw new Error("Expected struct TestClass, found bytes")
     },
 
+    visitDate() {
+      throw new Error("Expected struct TestClass, found date")
+    },
+
     visitSeq() {
       throw new Error("Expected struct TestClass, found sequence")
     },
@@ -128,3 +164,220 @@ Deno.test("JsonSerializer - should handle primitives", () => {
   serializer4.serializeNull()
   assertEquals(serializer4.getResult(), null)
 })
+
+Deno.test("isEmptyValue/isDefaultValue - should compare values structurally", () => {
+  assertEquals(isEmptyValue([]), true)
+  assertEquals(isEmptyValue(new Map()), true)
+  assertEquals(isEmptyValue({}), true)
+  assertEquals(isEmptyValue(0), false)
+  assertEquals(isDefaultValue([1, { a: "x" }], [1, { a: "x" }]), true)
+  assertEquals(isDefaultValue(new Set([1]), new Set([2])), false)
+  assertEquals(isDefaultValue([], {}), false)
+})
+
+Deno.test("serializeFlattened/deserializeFlattened - should merge nested fields into the parent", () => {
+  const serializer = new JsonSerializer()
+  const struct = serializer.serializeStruct("Parent", 2)
+  struct.serializeField("id", 1)
+  serializeFlattened(struct, new TestClass("John", 30))
+  struct.end()
+  assertEquals(serializer.getResult(), { id: 1, name: "John", age: 30 })
+
+  const rest: Record<string, unknown> = { name: "Jane", age: 25, color: "red" }
+  const nested = deserializeFlattened<TestClass>(rest, TestClass, new JsonDeserializer(null), "nested")
+  assertEquals(nested instanceof TestClass, true)
+  assertEquals(nested.name, "Jane")
+  assertEquals(rest, { color: "red" })
+})
+
+Deno.test("JsonSerializer - should keep bigints exact", () => {
+  class Balance implements Serialize, Deserialize {
+    constructor(public amount: bigint = 0n) {}
+
+    [SERIALIZE](serializer: Serializer): void {
+      serializer.serializeBigInt(this.amount)
+    }
+
+    [DESERIALIZE](deserializer: Deserializer): this {
+      const visitor = new PrimitiveVisitor("integer", (value) => validateBigInt(value, "amount"))
+      return new Balance(deserializer.deserializeBigInt(visitor)) as this
+    }
+  }
+
+  const json = toString(new Balance(12345678901234567890n))
+  assertEquals(json, "12345678901234567890")
+  assertEquals(fromString(json, Balance).amount, 12345678901234567890n)
+})
+
+Deno.test("validateNumber/validateNumberArray - should only accept bigints within the safe integer range", () => {
+  assertEquals(validateNumber(42n, "count"), 42)
+  assertEquals(validateNumberArray([1, 2n], "counts"), [1, 2])
+  for (
+    const [validate, message] of [
+      [
+        () => validateNumber(12345678901234567890n, "count"),
+        "Field 'count' expected safe integer, got 12345678901234567890",
+      ],
+      [
+        () => validateNumberArray([1, -12345678901234567890n], "counts"),
+        "Field 'counts[1]' expected safe integer, got -12345678901234567890",
+      ],
+    ] as const
+  ) {
+    try {
+      validate()
+      throw new Error("expected an error")
+    } catch (error) {
+      assertEquals((error as Error).message, message)
+    }
+  }
+})
+
+Deno.test("validateBytes/validateTypedArray/validateRegExp - should read platform value types", () => {
+  assertEquals(validateBytes("AAH/", new JsonDeserializer(null), "data"), new Uint8Array([0, 1, 255]))
+  assertEquals(validateBytes([1, 2], new JsonDeserializer(null), "data"), new Uint8Array([1, 2]))
+  assertEquals(validateTypedArray([1.5, 2], Float32Array, "weights"), new Float32Array([1.5, 2]))
+  assertEquals(validateRegExp("/^a\\/b$/gi", "pattern").source, "^a\\/b$")
+  try {
+    validateTypedArray([1, "2"], Float64Array, "weights")
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as Error).message, "Field 'weights[1]' expected number, got string")
+  }
+})
+
+Deno.test("deserializeNullable - should read none through deserializeOption", () => {
+  const deserializer = new JsonDeserializer(null)
+  assertEquals(deserializeNullable(null, deserializer, () => "some"), null)
+  assertEquals(deserializeNullable({ name: "Jane", age: 25 }, deserializer, (value) => value), {
+    name: "Jane",
+    age: 25,
+  })
+})
+
+Deno.test("getPrivateField/setPrivateFields - should reach #private fields decorated with @Field", () => {
+  class Account {
+    @Field()
+    #balance = 0
+
+    @Field()
+    get #limit(): number {
+      return this.#balance * 2
+    }
+
+    get balance(): number {
+      return this.#balance
+    }
+  }
+
+  const account = setPrivateFields(new Account(), Account, { balance: 42, limit: 1 })
+  assertEquals(account.balance, 42)
+  assertEquals(getPrivateField(account, Account, "#balance"), 42)
+  assertEquals(getPrivateField(account, Account, "#limit"), 84)
+})
+
+Deno.test("registerSubclass/deserializeSubclass - should dispatch on the type id", () => {
+  abstract class Pet {
+    [DESERIALIZE](deserializer: Deserializer): this {
+      return deserializeSubclass(deserializer, Pet, "kind", () => {
+        throw new Error("Pet is abstract")
+      }) as this
+    }
+  }
+  class Dog extends Pet {
+    override [DESERIALIZE](deserializer: Deserializer): this {
+      return deserializeSubclass(deserializer, Dog, "kind", () => new Dog()) as this
+    }
+  }
+  registerSubclass(Dog, "dog")
+
+  assertEquals(fromString(`{"kind": "dog"}`, Pet) instanceof Dog, true)
+  assertEquals(fromString(`{}`, Dog) instanceof Dog, true)
+  try {
+    fromString(`{"kind": "cat"}`, Pet)
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as Error).message, 'Unknown type id "cat" for Pet, expected one of "dog"')
+  }
+})
+
+Deno.test("runDeserializeHooks - should wrap hook failures with the struct name", () => {
+  const range = {
+    start: 3,
+    end: 1,
+    swap() {
+      ;[this.start, this.end] = [this.end, this.start]
+    },
+    check() {
+      return this.start < this.end || "start must be before end"
+    },
+  }
+  assertEquals(runDeserializeHooks(range, "Range", ["swap"], ["check"]).start, 1)
+
+  try {
+    runDeserializeHooks(range, "Range", ["swap"], ["check"])
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as Error).name, "DeserializationError")
+    assertEquals((error as Error).message, "Error in check() of struct Range: start must be before end")
+  }
+})
+
+Deno.test("validateConstraints - should report the violated constraint with the element path", () => {
+  assertEquals(validateConstraints(["a@b.co"], "emails", { minItems: 1, format: "email" }), ["a@b.co"])
+  assertEquals(validateConstraints(null, "age", { min: 0 }), null)
+
+  const failures = [
+    () => validateConstraints(-1, "age", { min: 0 }),
+    () => validateConstraints("x", "role", { oneOf: ["admin", "user"] }),
+    () => validateConstraints(["a@b.co", "nope"], "emails", { format: "email" }),
+  ]
+  const messages = failures.map((failure) => {
+    try {
+      failure()
+      return "no error"
+    } catch (error) {
+      return (error as Error).message
+    }
+  })
+  assertEquals(messages, [
+    "Field 'age' must be at least 0, got -1",
+    `Field 'role' must be one of "admin", "user", got "x"`,
+    `Field 'emails[1]' must be a valid email address, got "nope"`,
+  ])
+})
+
+Deno.test("collectIssues - should report every recorded issue in one ValidationError", () => {
+  const validateAll = () => {
+    for (const validate of [() => validateString(1, "name"), () => validateNumber("x", "scores[2]")]) {
+      try {
+        validate()
+      } catch (error) {
+        recordIssue(error)
+      }
+    }
+    return "done"
+  }
+
+  try {
+    collectIssues(validateAll)
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals(error instanceof ValidationError, true)
+    assertEquals((error as ValidationError).issues.map((issue) => [issue.path, issue.expected, issue.received]), [
+      ["name", "string", "number"],
+      ["scores[2]", "number", "string"],
+    ])
+    assertEquals(
+      (error as Error).message,
+      "2 validation errors:\n  Field 'name' expected string, got number\n  Field 'scores[2]' expected number, got string",
+    )
+  }
+
+  try {
+    validateAll()
+    throw new Error("expected an error")
+  } catch (error) {
+    assertEquals((error as Error).message, "Field 'name' expected string, got number")
+  }
+})
@@ -11,7 +11,11 @@ Object.defineProperty(User.prototype, $dezer.SERIALIZE, {
   value: function (serializer: Serializer) {
     const struct = serializer.serializeStruct("User", 3)
     struct.serializeField("name", this.name)
-    struct.serializeField("age", this.age)
+    if (this.age === undefined) {
+      struct.skipField("age")
+    } else {
+      struct.serializeField("age", this.age)
+    }
     struct.serializeField("email_address", this.email)
     struct.end()
   },
@@ -28,22 +32,26 @@ Object.defineProperty(User.prototype, $dezer.DESERIALIZE, {
       },
 
       visitMap(map: MapAccess) {
-        const instance = Object.create(User.prototype) as User
+        const instance = Object.create(User.prototype) as $dezer.Mutable<User>
         let entry
         while ((entry = map.nextEntry()) !== undefined) {
           const [key, value] = entry
-          switch (key) {
-            case "name":
-              instance.name = $dezer.validateString(value, "name")
-              break
-            case "age":
-              if (value !== undefined) {
-                instance.age = $dezer.validateNumber(value, "age")
-              }
-              break
-            case "email_address":
-              instance.email = $dezer.validateString(value, "email")
-              break
+          try {
+            switch (key) {
+              case "name":
+                instance.name = $dezer.validateString(value, "name")
+                break
+              case "age":
+                if (value !== undefined) {
+                  instance.age = $dezer.validateNumber(value, "age")
+                }
+                break
+              case "email_address":
+                instance.email = $dezer.validateString(value, "email")
+                break
+            }
+          } catch (error) {
+            $dezer.recordIssue(error, String(key))
           }
         }
         return instance
@@ -61,6 +69,10 @@ Object.defineProperty(User.prototype, $dezer.DESERIALIZE, {
         throw new Error("Expected struct User, found number")
       },
 
+      visitBigInt() {
+        throw new Error("Expected struct User, found bigint")
+      },
+
       visitString() {
         throw new Error("Expected struct User, found string")
       },
@@ -69,6 +81,10 @@ Object.defineProperty(User.prototype, $dezer.DESERIALIZE, {
         throw new Error("Expected struct User, found bytes")
       },
 
+      visitDate() {
+        throw new Error("Expected struct User, found date")
+      },
+
       visitSeq() {
         throw new Error("Expected struct User, found sequence")
       },
@@ -94,7 +110,7 @@ Object.defineProperty(Post.prototype, $dezer.SERIALIZE, {
     struct.serializeField("title", this.title)
     struct.serializeField("content", this.content)
     struct.serializeField("author", this.author)
-    struct.serializeField("createdAt", this.createdAt?.toISOString?.())
+    struct.serializeField("createdAt", $dezer.serializeAs((serializer) => serializer.serializeDate(this.createdAt)))
     struct.serializeField("tags", this.tags)
     struct.end()
   },
@@ -111,26 +127,30 @@ Object.defineProperty(Post.prototype, $dezer.DESERIALIZE, {
       },
 
       visitMap(map: MapAccess) {
-        const instance = Object.create(Post.prototype) as Post
+        const instance = Object.create(Post.prototype) as $dezer.Mutable<Post>
         let entry
         while ((entry = map.nextEntry()) !== undefined) {
           const [key, value] = entry
-          switch (key) {
-            case "title":
-              instance.title = $dezer.validateString(value, "title")
-              break
-            case "content":
-              instance.content = $dezer.validateString(value, "content")
-              break
-            case "author":
-              instance.author = $dezer.deserializeNestedObject(value, User, deserializer, "author")
-              break
-            case "createdAt":
-              instance.createdAt = $dezer.validateDate(value, "createdAt")
-              break
-            case "tags":
-              instance.tags = $dezer.validateStringArray(value, "tags")
-              break
+          try {
+            switch (key) {
+              case "title":
+                instance.title = $dezer.validateString(value, "title")
+                break
+              case "content":
+                instance.content = $dezer.validateString(value, "content")
+                break
+              case "author":
+                instance.author = $dezer.deserializeNestedObject(value, User, deserializer, "author")
+                break
+              case "createdAt":
+                instance.createdAt = $dezer.deserializeDateValue(value, deserializer, "createdAt")
+                break
+              case "tags":
+                instance.tags = $dezer.validateStringArray(value, "tags")
+                break
+            }
+          } catch (error) {
+            $dezer.recordIssue(error, String(key))
           }
         }
         return instance
@@ -148,6 +168,10 @@ Object.defineProperty(Post.prototype, $dezer.DESERIALIZE, {
         throw new Error("Expected struct Post, found number")
       },
 
+      visitBigInt() {
+        throw new Error("Expected struct Post, found bigint")
+      },
+
       visitString() {
         throw new Error("Expected struct Post, found string")
       },
@@ -156,6 +180,10 @@ Object.defineProperty(Post.prototype, $dezer.DESERIALIZE, {
         throw new Error("Expected struct Post, found bytes")
       },
 
+      visitDate() {
+        throw new Error("Expected struct Post, found date")
+      },
+
       visitSeq() {
         throw new Error("Expected struct Post, found sequence")
       },
@@ -180,8 +208,26 @@ Object.defineProperty(Blog.prototype, $dezer.SERIALIZE, {
     const struct = serializer.serializeStruct("Blog", 4)
     struct.serializeField("name", this.name)
     struct.serializeField("description", this.description)
-    struct.serializeField("posts", this.posts)
-    struct.serializeField("authors", this.authors)
+    struct.serializeField(
+      "posts",
+      $dezer.serializeAs((serializer) => {
+        const seq = serializer.serializeSeq(this.posts.length)
+        for (const item of this.posts) {
+          seq.serializeElement(item)
+        }
+        seq.end()
+      }),
+    )
+    struct.serializeField(
+      "authors",
+      $dezer.serializeAs((serializer) => {
+        const seq = serializer.serializeSeq(this.authors.length)
+        for (const item of this.authors) {
+          seq.serializeElement(item)
+        }
+        seq.end()
+      }),
+    )
     struct.end()
   },
   enumerable: false,
@@ -197,23 +243,27 @@ Object.defineProperty(Blog.prototype, $dezer.DESERIALIZE, {
       },
 
       visitMap(map: MapAccess) {
-        const instance = Object.create(Blog.prototype) as Blog
+        const instance = Object.create(Blog.prototype) as $dezer.Mutable<Blog>
         let entry
         while ((entry = map.nextEntry()) !== undefined) {
           const [key, value] = entry
-          switch (key) {
-            case "name":
-              instance.name = $dezer.validateString(value, "name")
-              break
-            case "description":
-              instance.description = $dezer.validateString(value, "description")
-              break
-            case "posts":
-              instance.posts = $dezer.deserializeObjectArray(value, Post, deserializer, "posts")
-              break
-            case "authors":
-              instance.authors = $dezer.deserializeObjectArray(value, User, deserializer, "authors")
-              break
+          try {
+            switch (key) {
+              case "name":
+                instance.name = $dezer.validateString(value, "name")
+                break
+              case "description":
+                instance.description = $dezer.validateString(value, "description")
+                break
+              case "posts":
+                instance.posts = $dezer.deserializeObjectArray(value, Post, deserializer, "posts")
+                break
+              case "authors":
+                instance.authors = $dezer.deserializeObjectArray(value, User, deserializer, "authors")
+                break
+            }
+          } catch (error) {
+            $dezer.recordIssue(error, String(key))
           }
         }
         return instance
@@ -231,6 +281,10 @@ Object.defineProperty(Blog.prototype, $dezer.DESERIALIZE, {
         throw new Error("Expected struct Blog, found number")
       },
 
+      visitBigInt() {
+        throw new Error("Expected struct Blog, found bigint")
+      },
+
       visitString() {
         throw new Error("Expected struct Blog, found string")
       },
@@ -239,6 +293,10 @@ Object.defineProperty(Blog.prototype, $dezer.DESERIALIZE, {
         throw new Error("Expected struct Blog, found bytes")
       },
 
+      visitDate() {
+        throw new Error("Expected struct Blog, found date")
+      },
+
       visitSeq() {
         throw new Error("Expected struct Blog, found sequence")
       },